@@ -28,7 +28,9 @@ import Header from './components/Header';
 import Sidebar from './components/Sidebar';
 import { LiveAPIProvider } from './contexts/LiveAPIContext';
 import DatabaseBridge from './components/DatabaseBridge';
-import { useUI } from './lib/state';
+import LiveInputBridge from './components/LiveInputBridge';
+import { useTools, useUI } from './lib/state';
+import { loadSavedTemplates } from './lib/templates';
 
 const API_KEY = process.env.API_KEY as string;
 if (typeof API_KEY !== 'string') {
@@ -49,10 +51,15 @@ function App() {
     document.documentElement.setAttribute('data-theme', theme);
   }, [theme]);
 
+  useEffect(() => {
+    loadSavedTemplates().then(templates => useTools.getState().addSavedTemplates(templates, false));
+  }, []);
+
   return (
     <div className="App">
       <LiveAPIProvider apiKey={API_KEY}>
         <DatabaseBridge />
+        <LiveInputBridge />
         <ErrorScreen />
         <Header />
         <Sidebar />
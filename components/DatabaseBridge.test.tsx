@@ -0,0 +1,247 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { act } from 'react';
+import { createRoot, Root } from 'react-dom/client';
+import { Modality } from '@google/genai';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { LiveAPIProvider, useLiveAPIContext } from '../contexts/LiveAPIContext';
+import { ReconnectEvent, UseLiveApiResults } from '../hooks/media/use-live-api';
+import { MockScenarioId } from '../lib/mock-live';
+import { useLogStore, useSettings, useTools } from '../lib/state';
+import { Translation } from '../lib/supabase';
+import { functionDeclaration } from '../lib/tool-runner';
+import { DEFAULT_TRANSCRIPT_SOURCE_CONFIG } from '../lib/transcript-sources';
+import { translationOutbox } from '../lib/translation-outbox';
+import { PersistedBridgeState } from '../lib/translation-queue';
+import DatabaseBridge from './DatabaseBridge';
+
+const stored = vi.hoisted(() => new Map<string, unknown>());
+
+// IndexedDB is kept in memory, so the persisted queue can be inspected
+vi.mock('../lib/idb', () => {
+  const keysOf = (store: string) => [...stored.keys()].filter(key => key.startsWith(`${store}/`));
+  return {
+    idbGet: async (store: string, key: string) => stored.get(`${store}/${key}`),
+    idbGetAll: async (store: string) => keysOf(store).map(key => stored.get(key)),
+    idbSet: async (store: string, key: string, value: unknown) => { stored.set(`${store}/${key}`, value); },
+    idbDelete: async (store: string, key: string) => { stored.delete(`${store}/${key}`); },
+    idbClear: async (store: string) => { keysOf(store).forEach(key => stored.delete(key)); },
+  };
+});
+
+// Nothing is played; segments are followed by the audio they receive
+vi.mock('../lib/utils', async importOriginal => ({
+  ...await importOriginal<typeof import('../lib/utils')>(),
+  audioContext: () => new Promise<AudioContext>(() => {}),
+}));
+
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+const LINES = [
+  'Good morning everyone, thank you for joining.',
+  'Today we review the launch plan.',
+  'The first item is the budget.',
+  'Next we look at the schedule.',
+  'Then we assign the owners.',
+  'Finally we take questions.',
+];
+
+// The mock speaks its input, marked with the language it was asked for
+const spoken = (line: string, language = useSettings.getState().language) => `[${language}] ${line}`;
+
+let live: UseLiveApiResults;
+// Every connected state rendered, to catch the session dropping in between
+let connectedStates: boolean[];
+const Capture = () => {
+  live = useLiveAPIContext();
+  connectedStates.push(live.connected);
+  return null;
+};
+
+let container: HTMLDivElement;
+let root: Root;
+let rows: Translation[];
+
+const segments = () => useLogStore.getState().turns.filter(turn => turn.sourceText !== undefined);
+const persisted = () => stored.get('bridge/bridge-state') as PersistedBridgeState | undefined;
+
+// Every line spoken, and nothing left in the persisted queue, fillers included
+const drained = () =>
+  segments().length === LINES.length &&
+  segments().every(turn => turn.status === 'spoken') &&
+  persisted()?.queue.length === 0 &&
+  !persisted()?.inFlight;
+
+// Advances the clock in steps small enough for the bridge's polling to follow
+const runUntil = async (done: () => boolean, maxMs = 600_000) => {
+  for (let elapsed = 0; elapsed < maxMs && !done(); elapsed += 100) {
+    await act(() => vi.advanceTimersByTimeAsync(100));
+  }
+  expect(done()).toBe(true);
+};
+
+const start = async (scenario: MockScenarioId) => {
+  useSettings.setState({
+    mockScenario: scenario,
+    transcriptSource: {
+      ...DEFAULT_TRANSCRIPT_SOURCE_CONFIG,
+      kind: 'replay',
+      replayText: LINES.join('\n'),
+      replayFileName: 'meeting',
+      replayIntervalMs: 2000,
+    },
+    transcriptSubscription: { mode: 'session', sessionId: 'replay-meeting', userId: '' },
+    translationMemory: { ...useSettings.getState().translationMemory, enabled: false },
+  });
+  await act(async () => {
+    root.render(
+      <LiveAPIProvider apiKey="test-key">
+        <Capture />
+        <DatabaseBridge />
+      </LiveAPIProvider>
+    );
+  });
+
+  const tools = useTools.getState().tools
+    .filter(tool => tool.isEnabled)
+    .map(tool => ({ functionDeclarations: [functionDeclaration(tool)] }));
+  await act(async () => {
+    live.setConfig({
+      responseModalities: [Modality.AUDIO],
+      outputAudioTranscription: {},
+      systemInstruction: useSettings.getState().systemPrompt,
+      tools,
+    });
+  });
+  await act(() => live.connect());
+};
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  rows = [];
+  connectedStates = [];
+  vi.spyOn(translationOutbox, 'enqueue').mockImplementation(row => { rows.push(row); });
+  stored.clear();
+  useLogStore.getState().clearTurns();
+  useTools.setState({ tools: [] });
+  useSettings.setState({ additionalLanguages: [] });
+  container = document.createElement('div');
+  root = createRoot(container);
+});
+
+afterEach(async () => {
+  await act(async () => {
+    live.disconnect();
+    root.unmount();
+  });
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('DatabaseBridge against the mock Live server', () => {
+  it('speaks every segment in order and empties the persisted queue (happy path)', async () => {
+    await start('happy-path');
+
+    // Queued segments keep only what the replay and the outbox read
+    await runUntil(() => (persisted()?.queue.length ?? 0) > 0);
+    persisted()!.queue.filter(item => item.refData).forEach(item => {
+      expect(Object.keys(item.refData!).sort()).toEqual(['session_id', 'source_language', 'user_id']);
+    });
+
+    await runUntil(drained);
+    expect(rows.map(row => row.original_text)).toEqual(LINES);
+    expect(rows.map(row => row.translated_text)).toEqual(LINES.map(line => spoken(line)));
+    expect(rows.every(row => row.meeting_id === 'replay-meeting')).toBe(true);
+    expect(segments().every(turn => !turn.attempts)).toBe(true);
+    expect(persisted()).toMatchObject({ queue: [], inFlight: null, failed: [] });
+  });
+
+  it('answers tool calls and goes on speaking (tool calls)', async () => {
+    useTools.setState({
+      tools: [{
+        name: 'note_progress',
+        description: 'Notes how far the meeting has got.',
+        parameters: { type: 'OBJECT', properties: {} },
+        isEnabled: true,
+      }],
+    });
+    await start('tool-calls');
+    await runUntil(drained);
+
+    const log = useLogStore.getState().turns.map(turn => turn.text);
+    expect(log.some(text => text.startsWith('Triggering function call'))).toBe(true);
+    expect(log.some(text => text.startsWith('Function call response'))).toBe(true);
+    expect(rows.map(row => row.translated_text)).toEqual(LINES.map(line => spoken(line)));
+    expect(persisted()).toMatchObject({ queue: [], inFlight: null, failed: [] });
+  });
+
+  it('gives up on interrupted turns without retrying them (interruptions)', async () => {
+    await start('interruptions');
+    await runUntil(drained);
+
+    // Interrupted turns stop halfway; what was heard of them is still recorded
+    expect(rows.map(row => row.original_text)).toEqual(LINES);
+    rows.forEach((row, i) => expect(spoken(LINES[i]).startsWith(row.translated_text)).toBe(true));
+    expect(rows.some((row, i) => row.translated_text !== spoken(LINES[i]))).toBe(true);
+    expect(segments().every(turn => !turn.attempts)).toBe(true);
+    expect(persisted()).toMatchObject({ queue: [], inFlight: null, failed: [] });
+  });
+
+  it('retries segments that got no audio until they are spoken (flaky audio)', async () => {
+    await start('flaky-audio');
+
+    await runUntil(() => segments().some(turn => turn.status === 'retrying'));
+    expect(persisted()!.inFlight?.attempts).toBe(1);
+
+    await runUntil(drained);
+    expect(segments().some(turn => (turn.attempts ?? 0) > 0)).toBe(true);
+    expect(rows.map(row => row.original_text)).toEqual(LINES);
+    expect(rows.map(row => row.translated_text)).toEqual(LINES.map(line => spoken(line)));
+    expect(persisted()).toMatchObject({ queue: [], inFlight: null, failed: [] });
+  });
+
+  it('restarts a silent main session without stopping the other languages (flaky audio)', async () => {
+    useSettings.setState({ additionalLanguages: ['Japanese'] });
+    await start('flaky-audio');
+    const closed = vi.fn();
+    live.client.on('close', closed);
+
+    await runUntil(drained);
+    live.client.off('close', closed);
+
+    // The main session was replaced in place, so the bridge never stopped
+    expect(segments().some(turn => (turn.attempts ?? 0) > 0)).toBe(true);
+    expect(closed).not.toHaveBeenCalled();
+    expect(connectedStates.slice(connectedStates.indexOf(true))).not.toContain(false);
+    const language = useSettings.getState().language;
+    const byLanguage = (l: string) => rows.filter(row => row.language === l);
+    expect(byLanguage(language).map(row => row.translated_text)).toEqual(LINES.map(line => spoken(line)));
+    expect(byLanguage('Japanese').map(row => row.translated_text)).toEqual(LINES.map(line => spoken(line, 'Japanese')));
+    expect(persisted()).toMatchObject({ queue: [], inFlight: null, failed: [] });
+  });
+
+  it('replays the segment cut off by a dropped connection (server restarts)', async () => {
+    await start('server-restarts');
+    const events: ReconnectEvent[] = [];
+    const removeListener = live.addReconnectListener(event => events.push(event));
+    let goAways = 0;
+    const onGoAway = () => goAways++;
+    live.client.on('goaway', onGoAway);
+
+    await runUntil(drained);
+    removeListener();
+    live.client.off('goaway', onGoAway);
+
+    // Sessions are resumed after the go-away and after every drop
+    const reconnected = events.filter(event => event.phase === 'reconnected');
+    expect(goAways).toBeGreaterThan(0);
+    expect(reconnected.length).toBeGreaterThan(goAways);
+    expect(reconnected.every(event => event.resumed)).toBe(true);
+    expect(events.some(event => event.phase === 'failed')).toBe(false);
+    expect(rows.map(row => row.translated_text)).toEqual(LINES.map(line => spoken(line)));
+    expect(persisted()).toMatchObject({ queue: [], inFlight: null, failed: [] });
+  });
+});
@@ -3,171 +3,580 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import { useEffect, useRef, useCallback } from 'react';
-import { supabase, Transcript } from '../lib/supabase';
+import { Transcript } from '../lib/supabase';
 import { useLiveAPIContext } from '../contexts/LiveAPIContext';
-import { useLogStore, useSettings } from '../lib/state';
-
-// Worker script to ensure polling continues even when tab is in background
-const workerScript = `
-  self.onmessage = function(e) {
-    const data = e.data;
-    if (data === 'start') {
-      setInterval(() => {
-        self.postMessage({ type: 'tick' });
-      }, 5000);
-    } else if (data && data.type === 'wait') {
-      setTimeout(() => {
-        self.postMessage({ type: 'wait_complete', id: data.id });
-      }, data.ms);
-    }
-  };
-`;
+import { ReconnectEvent, SegmentRequest } from '../hooks/media/use-live-api';
+import {
+  ConversationTurn,
+  targetLanguages,
+  useBridgeStatus,
+  useLogStore,
+  useSettings,
+  useSpeakers,
+  VoiceStyle,
+} from '../lib/state';
+import { BackgroundTimer } from '../lib/background-timer';
+import {
+  createTranscriptSource,
+  matchesSubscription,
+  summarizeTranscript,
+} from '../lib/transcript-sources';
+import { TranscriptDeltaTracker } from '../lib/transcript-delta';
+import { loadBridgeState, paragraphsOf, QueueItem, queueSource, saveBridgeState } from '../lib/translation-queue';
+import { localeForLanguage, segmentParagraph, splitParagraphs } from '../lib/segmenter';
+import { DEFAULT_SPEAKER_ID, resolveSpeakerLine, SpeakerProfile } from '../lib/speakers';
+import { condenseQueue, playbackRateForLag, queueLagSeconds, skipStaleItems } from '../lib/lag-policy';
+import { concatAudio, lookupMemory, MemoryKeyParts, storeMemory } from '../lib/translation-memory';
+import { checkGlossary, glossaryFingerprint, GlossaryViolation } from '../lib/glossary';
+import { translationOutbox } from '../lib/translation-outbox';
+import { isAudioInput } from '../lib/live-input';
+import { detectDirection, Direction, languagePair, targetOf } from '../lib/two-way';
+
+// How long a released segment may take to start and to finish generating
+const FIRST_AUDIO_TIMEOUT_MS = 15000;
+const SEGMENT_TIMEOUT_MS = 45000;
+
+// Segments without any audio are requested again with exponential backoff
+const MAX_SEGMENT_RETRIES = 3;
+const RETRY_BASE_DELAY_MS = 1000;
+
+// Live API output is 24 kHz 16-bit mono PCM
+const OUTPUT_BYTES_PER_SECOND = 24000 * 2;
+
+// A pipeline entry rendered in one target language
+type LanguageOutput = {
+  language: string;
+  // Id of the requested segment, unique per language
+  requestId: string;
+  request: Promise<SegmentRequest>;
+  requestedAt: number;
+  releasedAt?: number;
+  // Set for lines eligible for the translation memory
+  memoryKey?: MemoryKeyParts;
+};
 
-const segmentText = (text: string): string[] => {
-  if (!text) return [];
-  return text.split(/\r?\n+/).map(t => t.trim()).filter(t => t.length > 0);
+type PipelineEntry = {
+  item: QueueItem;
+  segmentId: string;
+  // Text without style cues, as recorded with the translation
+  sourceText: string;
+  scriptedText: string;
+  speakerId: string;
+  // Voice and style the segment was requested with
+  voice: string;
+  style: VoiceStyle;
+  // The primary language first
+  outputs: LanguageOutput[];
 };
 
-type QueueItem = {
+type OutputText = {
+  turnId: string;
+  language: string;
   text: string;
-  refData: Transcript | null;
-  turnId?: string;
+};
+
+const applyVoiceStyle = (text: string, style: VoiceStyle) => {
+  switch (style) {
+    case 'breathy': return `(soft inhale) ${text} ... (pause)`;
+    case 'dramatic': return `(slowly) ${text} ... (long pause)`;
+    case 'enthusiastic': return `(excitedly) ${text}`;
+    case 'formal': return `(professionally) ${text}`;
+    case 'conversational': return `(casually) ${text}`;
+    default: return text;
+  }
 };
 
 export default function DatabaseBridge() {
-  const { client, connected, getAudioStreamerState, sendToSpeaker, addOutputListener } = useLiveAPIContext();
-  const { addTurn, updateTurn } = useLogStore();
-  const { voiceStyle, speechRate, language } = useSettings();
+  const {
+    client, connected, getAudioStreamerState, setPlaybackRate,
+    requestSegment, releaseSegment, cancelSegment, replaySegment, reconnectSpeaker, addOutputListener,
+    addReconnectListener,
+  } = useLiveAPIContext();
+  const { addTurn, updateTurn, removeTurns } = useLogStore();
+  const {
+    voice, voiceStyle, speechRate, language, additionalLanguages, transcriptSource, transcriptSubscription,
+    segmentation, speakerTags, lagPolicy, pipelineDepth, translationMemory, glossary, inputMode,
+    twoWay,
+  } = useSettings();
+  // Audio input is interpreted by the main session directly, see `LiveInputBridge`
+  const active = connected && !isAudioInput(inputMode);
+  const { speakers, registerSpeaker } = useSpeakers();
+  const {
+    setSourceStatus, setLastTranscript, upsertSessions, setFollowedSessionId, setResumedCount, setQueueStats,
+    pendingRetries, clearRetries,
+  } = useBridgeStatus();
   
-  const lastProcessedIdRef = useRef<string | null>(null);
+  const deltaTrackerRef = useRef(new TranscriptDeltaTracker());
   const paragraphCountRef = useRef<number>(0);
   
+  const voiceRef = useRef(voice);
   const voiceStyleRef = useRef(voiceStyle);
   const speechRateRef = useRef(speechRate);
   const languageRef = useRef(language);
-
-  const currentTurnIdRef = useRef<string | null>(null);
-  const currentTranslationBufferRef = useRef<string>('');
+  const additionalLanguagesRef = useRef(additionalLanguages);
+  const segmentationRef = useRef(segmentation);
+  const speakerTagsRef = useRef(speakerTags);
+  const speakersRef = useRef(speakers);
+  const lagPolicyRef = useRef(lagPolicy);
+  const pipelineDepthRef = useRef(pipelineDepth);
+  const translationMemoryRef = useRef(translationMemory);
+  const glossaryRef = useRef(glossary);
+  const twoWayRef = useRef(twoWay);
+  // The side that spoke last, assumed to go on when a segment's language is unclear
+  const lastDirectionRef = useRef<Direction>('a-to-b');
+
+  // Translation received so far for each requested segment, by request id
+  const translationsRef = useRef<Map<string, OutputText>>(new Map());
   
-  const workerRef = useRef<Worker | null>(null);
-  const pendingWaitsRef = useRef<Map<string, () => void>>(new Map());
+  const timerRef = useRef<BackgroundTimer | null>(null);
 
   const workerWait = useCallback((ms: number) => {
-    return new Promise<void>((resolve) => {
-      if (!workerRef.current) {
-        setTimeout(resolve, ms);
-        return;
-      }
-      const id = crypto.randomUUID();
-      pendingWaitsRef.current.set(id, resolve);
-      workerRef.current.postMessage({ type: 'wait', id, ms });
-    });
+    if (!timerRef.current) {
+      return new Promise<void>(resolve => setTimeout(resolve, ms));
+    }
+    return timerRef.current.wait(ms);
   }, []);
 
+  useEffect(() => { voiceRef.current = voice; }, [voice]);
   useEffect(() => { voiceStyleRef.current = voiceStyle; }, [voiceStyle]);
   useEffect(() => { speechRateRef.current = speechRate; }, [speechRate]);
   useEffect(() => { languageRef.current = language; }, [language]);
+  useEffect(() => { additionalLanguagesRef.current = additionalLanguages; }, [additionalLanguages]);
+  useEffect(() => { segmentationRef.current = segmentation; }, [segmentation]);
+  useEffect(() => { speakerTagsRef.current = speakerTags; }, [speakerTags]);
+  useEffect(() => { speakersRef.current = speakers; }, [speakers]);
+  useEffect(() => { lagPolicyRef.current = lagPolicy; }, [lagPolicy]);
+  useEffect(() => { pipelineDepthRef.current = pipelineDepth; }, [pipelineDepth]);
+  useEffect(() => { translationMemoryRef.current = translationMemory; }, [translationMemory]);
+  useEffect(() => { glossaryRef.current = glossary; }, [glossary]);
+  useEffect(() => { twoWayRef.current = twoWay; }, [twoWay]);
+
+  // Items persisted before speakers were resolved at enqueue time carry the
+  // tag in their text, so they are resolved again when restored.
+  const resolveItemSpeaker = useCallback((item: QueueItem): { speaker: SpeakerProfile | null; text: string } => {
+    const resolved = item.speaker
+      ? { speakerId: item.speaker, text: item.text }
+      : resolveSpeakerLine(item.text, { ...speakerTagsRef.current, autoRegister: false }, speakersRef.current);
+    return { speaker: speakersRef.current.find(s => s.id === resolved.speakerId) || null, text: resolved.text };
+  }, []);
 
   useEffect(() => {
-    const removeListener = addOutputListener((text: string, isFinal: boolean) => {
-       currentTranslationBufferRef.current += text;
-       if (currentTurnIdRef.current) {
-         updateTurn(currentTurnIdRef.current, { 
-           translation: currentTranslationBufferRef.current 
-         });
-       }
+    const { setOutboxStats } = useBridgeStatus.getState();
+    translationOutbox.on('change', setOutboxStats);
+    translationOutbox.start();
+    return () => {
+      translationOutbox.off('change', setOutboxStats);
+      translationOutbox.stop();
+    };
+  }, []);
+
+  // Mirrors a language's translation onto the turn; the primary language, or
+  // the only one of a two-way segment, also fills the turn's main translation
+  const setOutputText = useCallback((requestId: string, text: string, update: Partial<ConversationTurn> = {}) => {
+    const output = translationsRef.current.get(requestId);
+    if (!output) return;
+    output.text = text;
+    const turn = useLogStore.getState().turns.find(t => t.id === output.turnId);
+    updateTurn(output.turnId, {
+      ...update,
+      translations: { ...turn?.translations, [output.language]: text },
+      ...(output.language === languageRef.current || turn?.direction ? { translation: text } : {}),
+    });
+  }, [updateTurn]);
+
+  useEffect(() => {
+    const removeListener = addOutputListener((text: string, isFinal: boolean, segmentId?: string) => {
+       const output = segmentId ? translationsRef.current.get(segmentId) : undefined;
+       if (!segmentId || !output) return;
+       setOutputText(segmentId, output.text + text);
+    });
+    return () => removeListener();
+  }, [addOutputListener, setOutputText]);
+
+  useEffect(() => {
+    const { startReconnect, endReconnect } = useBridgeStatus.getState();
+    const removeListener = addReconnectListener((event: ReconnectEvent) => {
+      const speakerName = speakersRef.current.find(s => s.id === event.speaker)?.name || 'Default voice';
+      const label = `${speakerName} · ${event.language}`;
+      if (event.phase === 'reconnecting') {
+        startReconnect(label);
+        return;
+      }
+      if (event.phase === 'cancelled') {
+        endReconnect(label, null);
+        return;
+      }
+      endReconnect(label, event.phase === 'failed' ? 'failed' : event.resumed ? 'resumed' : 'fresh');
+      // The replayed segment is transcribed again from the start
+      if (event.replayedSegmentId) setOutputText(event.replayedSegmentId, '');
     });
     return () => removeListener();
-  }, [addOutputListener, updateTurn]);
+  }, [addReconnectListener, setOutputText]);
 
   const queueRef = useRef<QueueItem[]>([]);
+  const pipelineRef = useRef<PipelineEntry[]>([]);
+  // Items that failed every retry, by turn id, until the user retries them
+  const failedItemsRef = useRef<Map<string, QueueItem>>(new Map());
+  const processNewDataRef = useRef<((data: Transcript) => void) | null>(null);
+  const processQueueRef = useRef<(() => void) | null>(null);
   const isProcessingRef = useRef(false);
 
+  const persistQueue = useCallback(() => {
+    // Requested segments never finished playing, so they are saved as pending
+    const requested = pipelineRef.current.map(entry => entry.item);
+    saveBridgeState({
+      queue: [...requested.slice(1), ...queueRef.current],
+      inFlight: requested[0] || null,
+      failed: Array.from(failedItemsRef.current.values()),
+      progress: deltaTrackerRef.current.snapshot(),
+      paragraphCount: paragraphCountRef.current,
+    });
+  }, []);
+
+  // Restore work left over from a previous page load before any new transcript
+  // is diffed, otherwise already consumed paragraphs would be queued again.
+  const restoreRef = useRef<Promise<void> | null>(null);
+  useEffect(() => {
+    if (restoreRef.current) return;
+    restoreRef.current = loadBridgeState().then(saved => {
+      if (!saved) return;
+      deltaTrackerRef.current.restore(saved.progress || {});
+      paragraphCountRef.current = saved.paragraphCount || 0;
+
+      // The interrupted item goes first; its audio never finished playing
+      const resumed = [saved.inFlight, ...(saved.queue || [])]
+        .filter((q): q is QueueItem => !!q)
+        .map(q => ({
+          ...q,
+          // States saved before the source was slimmed hold the whole transcript
+          refData: q.refData && queueSource(q.refData),
+          enqueuedAt: q.enqueuedAt ?? saved.savedAt,
+        }));
+      queueRef.current = [...resumed, ...queueRef.current];
+
+      resumed.forEach(item => {
+        if (!item.turnId) return;
+        const { speaker, text } = resolveItemSpeaker(item);
+        addTurn({
+          id: item.turnId,
+          role: 'system',
+          text,
+          translation: '',
+          sourceText: item.text,
+          isFinal: true,
+          speaker: speaker?.name,
+          speakerId: speaker?.id,
+          resumed: true,
+        });
+      });
+      setResumedCount(resumed.filter(item => !!item.turnId).length);
+
+      (saved.failed || []).forEach(item => {
+        if (!item.turnId) return;
+        failedItemsRef.current.set(item.turnId, item);
+        const { speaker, text } = resolveItemSpeaker(item);
+        addTurn({
+          id: item.turnId,
+          role: 'system',
+          text,
+          translation: '',
+          sourceText: item.text,
+          isFinal: true,
+          speaker: speaker?.name,
+          speakerId: speaker?.id,
+          resumed: true,
+          status: 'failed',
+          attempts: item.attempts,
+        });
+      });
+    });
+  }, [addTurn, setResumedCount, resolveItemSpeaker]);
+
   useEffect(() => {
     isProcessingRef.current = false;
-    if (!connected) return;
+    if (!active) return;
+
+    if (!timerRef.current) {
+      timerRef.current = new BackgroundTimer();
+    }
+
+    // A session being reopened keeps its pipeline; its segments are replayed
+    const isLive = () => client.status === 'connected' || client.status === 'reconnecting';
+
+    const updateQueueStats = () => {
+      const lagSeconds = queueLagSeconds([...pipelineRef.current.map(entry => entry.item), ...queueRef.current]);
+      const playbackRate = playbackRateForLag(lagSeconds, lagPolicyRef.current);
+      setPlaybackRate(playbackRate);
+      setQueueStats({
+        lagSeconds: Math.round(lagSeconds),
+        queueLength: queueRef.current.length + pipelineRef.current.length,
+        playbackRate,
+      });
+    };
+    updateQueueStats();
+    timerRef.current.setInterval(updateQueueStats, 1000);
+
+    // Speed-up is handled by updateQueueStats; the other policies reshape the queue
+    const applyLagPolicy = () => {
+      const settings = lagPolicyRef.current;
+      if (queueLagSeconds(queueRef.current) <= settings.maxLagSeconds) return;
+
+      if (settings.policy === 'skip') {
+        const { kept, skipped } = skipStaleItems(queueRef.current, settings.maxLagSeconds);
+        if (skipped.length === 0) return;
+        queueRef.current = kept;
+        skipped.forEach(item => {
+          if (item.turnId) updateTurn(item.turnId, { skipped: true });
+        });
+        persistQueue();
+      } else if (settings.policy === 'condense') {
+        const { queue, absorbed, dropped } = condenseQueue(queueRef.current, segmentationRef.current.maxChars);
+        if (absorbed.length === 0 && dropped.length === 0) return;
+        queueRef.current = queue;
+        absorbed.forEach(({ into, turnIds }) => {
+          if (into.turnId) updateTurn(into.turnId, { text: into.text });
+          removeTurns(turnIds);
+        });
+        persistQueue();
+      }
+    };
+
+    // Requests segments ahead of playback, up to the configured depth
+    const fillPipeline = () => {
+      if (!isLive()) return;
+      applyLagPolicy();
+
+      let requested = false;
+      while (pipelineRef.current.length < pipelineDepthRef.current && queueRef.current.length > 0) {
+        const item = queueRef.current.shift()!;
+        const { speaker, text } = item.refData
+          ? resolveItemSpeaker(item)
+          : { speaker: null, text: item.text };
+        if (!text.trim()) continue;
+
+        const style = speaker && speaker.style !== 'inherit' ? speaker.style : voiceStyleRef.current;
+        const scriptedText = text === '(clears throat)' ? text : applyVoiceStyle(text, style);
+
+        const segmentId = item.turnId || crypto.randomUUID();
+        const speakerId = speaker?.id || DEFAULT_SPEAKER_ID;
+        const voice = speaker?.voice || voiceRef.current;
+        // Two-way segments are interpreted into the other side of the pair only
+        const pair = languagePair({ twoWay: twoWayRef.current, language: languageRef.current });
+        const direction = pair ? detectDirection(text, pair, lastDirectionRef.current) : undefined;
+        if (direction) {
+          lastDirectionRef.current = direction;
+          if (item.turnId) updateTurn(item.turnId, { direction });
+        }
+        const languages = pair && direction
+          ? [targetOf(direction, pair)]
+          : targetLanguages({
+              language: languageRef.current,
+              additionalLanguages: additionalLanguagesRef.current,
+            });
+
+        const outputs = languages.map((language): LanguageOutput => {
+          const requestId = `${segmentId}:${language}`;
+          const memoryKey: MemoryKeyParts | undefined = item.refData && translationMemoryRef.current.enabled
+            ? {
+                sourceText: text,
+                language,
+                voice,
+                style,
+                speechRate: speechRateRef.current,
+                glossary: glossaryFingerprint(glossaryRef.current, language),
+              }
+            : undefined;
+          translationsRef.current.set(requestId, { turnId: segmentId, language, text: '' });
+
+          // Exact repeats are replayed from the translation memory
+          const request = memoryKey
+            ? lookupMemory(memoryKey).then(hit => {
+                if (!hit) return requestSegment(requestId, scriptedText, speakerId, language);
+                setOutputText(requestId, hit.entry.translation, language === languageRef.current || direction ? { cached: true } : {});
+                return replaySegment(requestId, speakerId, language, hit.audio);
+              })
+            : requestSegment(requestId, scriptedText, speakerId, language);
+          return { language, requestId, request, requestedAt: Date.now(), memoryKey };
+        });
+
+        pipelineRef.current.push({
+          item,
+          segmentId,
+          sourceText: text,
+          scriptedText,
+          speakerId,
+          voice,
+          style,
+          outputs,
+        });
+        requested = true;
+      }
+      if (requested) persistQueue();
+    };
+
+    // Puts requested segments back in front of the queue when the session ends
+    const returnPipelineToQueue = () => {
+      if (pipelineRef.current.length === 0) return;
+      pipelineRef.current.forEach(entry => entry.outputs.forEach(output => {
+        cancelSegment(output.requestId);
+        translationsRef.current.delete(output.requestId);
+      }));
+      queueRef.current = [...pipelineRef.current.map(entry => entry.item), ...queueRef.current];
+      pipelineRef.current = [];
+      persistQueue();
+    };
+
+    // Resolves with whether the model finished the turn; gives up early if
+    // no audio arrived at all. Time spent reconnecting does not count.
+    const waitForSegment = async (request: SegmentRequest): Promise<boolean> => {
+      let settled: boolean | null = null;
+      request.done.then(ok => { settled = ok; });
+      let start = Date.now();
+      while (settled === null) {
+        if (useBridgeStatus.getState().reconnecting.length > 0) start = Date.now();
+        const elapsed = Date.now() - start;
+        if (elapsed > (request.audioBytes === 0 ? FIRST_AUDIO_TIMEOUT_MS : SEGMENT_TIMEOUT_MS)) return false;
+        await workerWait(100);
+      }
+      return settled;
+    };
 
     const processQueueLoop = async () => {
+      fillPipeline();
       if (isProcessingRef.current) return;
       isProcessingRef.current = true;
 
+      // Streamers that played the previous segment, one per language
+      let lastChannels: { speaker: string; language: string }[] = [];
+
       try {
-        while (queueRef.current.length > 0) {
-          if (client.status !== 'connected') {
-            isProcessingRef.current = false;
-            return;
+        while (pipelineRef.current.length > 0) {
+          const entry = pipelineRef.current[0];
+          const requests = await Promise.all(entry.outputs.map(output => output.request));
+          if (!isLive() || pipelineRef.current[0] !== entry) break;
+
+          // Release once the previous segment is nearly over in every
+          // language. Audio on the same streamer queues up seamlessly; on
+          // another it would overlap.
+          const drainStart = Date.now();
+          for (const last of lastChannels) {
+            const sameStreamer = requests.some(r => r.speaker === last.speaker && r.language === last.language);
+            const handoff = sameStreamer ? 1 : 0.1;
+            while (Date.now() - drainStart < 60000 && getAudioStreamerState(last.speaker, last.language).duration > handoff) {
+              await workerWait(100);
+            }
           }
+          entry.outputs.forEach((output, i) => {
+            releaseSegment(requests[i].id);
+            output.releasedAt ??= Date.now();
+          });
 
-          const item = queueRef.current[0];
-          const rawText = item.text;
-          currentTurnIdRef.current = item.turnId || null;
-          
-          let textToSend = rawText;
-          let targetSpeaker = 'default';
-          
-          if (rawText.startsWith('Male 1:')) { targetSpeaker = 'Male 1'; textToSend = rawText.replace('Male 1:', '').trim(); }
-          else if (rawText.startsWith('Male 2:')) { targetSpeaker = 'Male 2'; textToSend = rawText.replace('Male 2:', '').trim(); }
-          else if (rawText.startsWith('Female 1:')) { targetSpeaker = 'Female 1'; textToSend = rawText.replace('Female 1:', '').trim(); }
-          else if (rawText.startsWith('Female 2:')) { targetSpeaker = 'Female 2'; textToSend = rawText.replace('Female 2:', '').trim(); }
-          
-          let scriptedText = textToSend;
-          if (textToSend !== '(clears throat)') {
-             const style = voiceStyleRef.current;
-             switch (style) {
-               case 'breathy': scriptedText = `(soft inhale) ${textToSend} ... (pause)`; break;
-               case 'dramatic': scriptedText = `(slowly) ${textToSend} ... (long pause)`; break;
-               case 'enthusiastic': scriptedText = `(excitedly) ${textToSend}`; break;
-               case 'formal': scriptedText = `(professionally) ${textToSend}`; break;
-               case 'conversational': scriptedText = `(casually) ${textToSend}`; break;
-             }
-          }
+          const results = await Promise.all(requests.map(waitForSegment));
+          if (!isLive() || pipelineRef.current[0] !== entry) break;
 
-          if (!scriptedText || !scriptedText.trim()) {
-            queueRef.current.shift();
-            continue;
-          }
+          const rendered = entry.outputs.map((output, i) => ({ output, request: requests[i], finished: results[i] }));
+          rendered.filter(r => !r.finished && r.request.audioBytes > 0).forEach(r => {
+            cancelSegment(r.request.id);
+            console.warn(`Timeout waiting for the segment to finish in ${r.output.language}.`);
+          });
 
-          currentTranslationBufferRef.current = '';
-          const preSendState = getAudioStreamerState(targetSpeaker);
-
-          sendToSpeaker(scriptedText, targetSpeaker);
-          queueRef.current.shift();
-
-          const waitStart = Date.now();
-          let audioArrived = false;
-          while (Date.now() - waitStart < 15000) {
-             const currentState = getAudioStreamerState(targetSpeaker);
-             if (currentState.endOfQueueTime > preSendState.endOfQueueTime + 0.1) {
-                audioArrived = true;
-                break;
-             }
-             await workerWait(250); 
-          }
+          // Nothing was heard in these languages, so they can safely be requested again
+          const silent = rendered.filter(r => !r.finished && r.request.audioBytes === 0);
+          if (silent.length > 0) {
+            silent.forEach(r => cancelSegment(r.request.id));
+            const attempts = (entry.item.attempts || 0) + 1;
+            entry.item = { ...entry.item, attempts };
+
+            if (attempts <= MAX_SEGMENT_RETRIES) {
+              console.warn(`Timeout waiting for audio response, retrying (${attempts}/${MAX_SEGMENT_RETRIES}).`);
+              if (entry.item.turnId) updateTurn(entry.item.turnId, { status: 'retrying', attempts });
+              persistQueue();
+              await Promise.all(silent.map(r => reconnectSpeaker(r.request.speaker, r.output.language)));
+              await workerWait(RETRY_BASE_DELAY_MS * 2 ** (attempts - 1));
+              if (!isLive() || pipelineRef.current[0] !== entry) break;
+
+              silent.forEach(({ output }) => {
+                setOutputText(output.requestId, '');
+                output.request = requestSegment(output.requestId, entry.scriptedText, entry.speakerId, output.language);
+                output.requestedAt = Date.now();
+                output.releasedAt = undefined;
+              });
+              continue;
+            }
 
-          if (!audioArrived) console.warn("Timeout waiting for audio response.");
+            if (silent.length === rendered.length) {
+              console.warn('No audio response after retrying; marking the segment as failed.');
+              pipelineRef.current.shift();
+              entry.outputs.forEach(output => translationsRef.current.delete(output.requestId));
+              if (entry.item.turnId) {
+                failedItemsRef.current.set(entry.item.turnId, entry.item);
+                updateTurn(entry.item.turnId, { status: 'failed', attempts });
+              }
+              persistQueue();
+              fillPipeline();
+              continue;
+            }
 
-          const playStart = Date.now();
-          while (Date.now() - playStart < 60000) {
-             const state = getAudioStreamerState(targetSpeaker);
-             if (state.duration <= 0.5) break;
-             await workerWait(100);
+            // Other languages were heard, so only the silent ones are given up
+            console.warn(`No audio in ${silent.map(r => r.output.language).join(', ')} after retrying; skipping.`);
+            silent.forEach(r => translationsRef.current.delete(r.output.requestId));
           }
 
-          if (item.refData && currentTranslationBufferRef.current.trim().length > 0) {
-            try {
-              await supabase.from('translations').insert({
-                meeting_id: item.refData.session_id,
-                user_id: item.refData.user_id,
-                original_text: rawText, 
-                translated_text: currentTranslationBufferRef.current.trim(),
-                language: languageRef.current,
+          const heard = rendered.filter(r => !silent.includes(r));
+          lastChannels = heard.map(r => ({ speaker: r.request.speaker, language: r.output.language }));
+          if (entry.item.turnId) updateTurn(entry.item.turnId, { status: 'spoken' });
+
+          pipelineRef.current.shift();
+          persistQueue();
+          fillPipeline();
+
+          const violations: GlossaryViolation[] = [];
+          heard.forEach(({ output, request, finished }) => {
+            const translation = (translationsRef.current.get(output.requestId)?.text || '').trim();
+            translationsRef.current.delete(output.requestId);
+
+            const found = translation
+              ? checkGlossary(glossaryRef.current, entry.sourceText, translation, output.language)
+              : [];
+            violations.push(...found);
+
+            // Renderings that break the glossary are not worth repeating
+            if (finished && !request.replayed && output.memoryKey && translation.length > 0 && found.length === 0) {
+              storeMemory(output.memoryKey, translation, concatAudio(request.audio), translationMemoryRef.current);
+            }
+
+            if (entry.item.refData && translation.length > 0) {
+              const { enqueuedAt } = entry.item;
+              const releasedAt = output.releasedAt ?? Date.now();
+              const toIso = (time: number | null | undefined) => time ? new Date(time).toISOString() : undefined;
+              translationOutbox.enqueue({
+                meeting_id: entry.item.refData.session_id,
+                user_id: entry.item.refData.user_id,
+                original_text: entry.sourceText,
+                translated_text: translation,
+                language: output.language,
+                turn_id: entry.item.turnId,
+                speaker_id: entry.speakerId,
+                speaker_name: speakersRef.current.find(s => s.id === entry.speakerId)?.name,
+                // A speaker whose client failed is heard in the default voice
+                voice: request.speaker === entry.speakerId ? entry.voice : voiceRef.current,
+                voice_style: entry.style,
+                paragraph_index: entry.item.paragraphIndex,
+                segment_index: entry.item.segmentIndex,
+                enqueued_at: toIso(enqueuedAt),
+                requested_at: toIso(output.requestedAt),
+                first_audio_at: toIso(request.firstAudioAt),
+                spoken_at: toIso(releasedAt),
+                latency_ms: enqueuedAt ? releasedAt - enqueuedAt : undefined,
+                audio_duration_ms: Math.round(request.audioBytes / OUTPUT_BYTES_PER_SECOND * 1000),
               });
-            } catch (err) {
-              console.error('Failed to save translation:', err);
             }
+          });
+          if (violations.length > 0 && entry.item.turnId) {
+            updateTurn(entry.item.turnId, { glossaryViolations: violations });
           }
-          currentTurnIdRef.current = null;
         }
+        if (!isLive()) returnPipelineToQueue();
       } catch (e) {
         console.error('Error in processing loop:', e);
       } finally {
@@ -176,107 +585,174 @@ export default function DatabaseBridge() {
     };
 
     if (queueRef.current.length > 0) processQueueLoop();
+    processQueueRef.current = processQueueLoop;
 
     const processNewData = (data: Transcript) => {
       const source = data.full_transcript_text;
       if (!data || !source) return;
 
-      if (lastProcessedIdRef.current === data.id) return;
-      lastProcessedIdRef.current = data.id;
-      
-      const segments = segmentText(source);
-      if (segments.length > 0) {
-        segments.forEach((seg) => {
-           const turnId = crypto.randomUUID();
-           let speaker = 'default';
-           let uiText = seg;
-
-           if (seg.startsWith('Male 1:')) { speaker = 'Male 1'; uiText = seg.replace('Male 1:', '').trim(); }
-           else if (seg.startsWith('Male 2:')) { speaker = 'Male 2'; uiText = seg.replace('Male 2:', '').trim(); }
-           else if (seg.startsWith('Female 1:')) { speaker = 'Female 1'; uiText = seg.replace('Female 1:', '').trim(); }
-           else if (seg.startsWith('Female 2:')) { speaker = 'Female 2'; uiText = seg.replace('Female 2:', '').trim(); }
-           
-           addTurn({
+      const sessionKey = data.session_id || data.id;
+      const changes = deltaTrackerRef.current.diff(sessionKey, splitParagraphs(source));
+      if (changes.length === 0) return;
+
+      const origin = queueSource(data);
+      const segmenterOptions = {
+        ...segmentationRef.current,
+        locale: localeForLanguage(data.source_language),
+        speechRate: speechRateRef.current,
+      };
+
+      changes.forEach((change) => {
+        let revisionOf: string | undefined;
+
+        if (change.kind === 'edited' && change.previousId) {
+          const previousId = change.previousId;
+          const stillQueued = queueRef.current.filter(q => paragraphsOf(q).includes(previousId));
+          // Items merged with other paragraphs are still spoken, and the edit follows them
+          const merged = stillQueued.find(q => paragraphsOf(q).length > 1);
+          const pending = stillQueued.filter(q => paragraphsOf(q).length === 1);
+          if (pending.length > 0) {
+            // Not spoken yet: replace the pending version instead of speaking both
+            queueRef.current = queueRef.current.filter(q => !pending.includes(q));
+            removeTurns(pending.map(q => q.turnId).filter((id): id is string => !!id));
+          }
+          if (merged) {
+            revisionOf = merged.turnId;
+          } else if (pending.length === 0) {
+            revisionOf = previousId;
+          }
+        }
+
+        const resolved = resolveSpeakerLine(change.text, speakerTagsRef.current, speakersRef.current);
+        if (resolved.newProfile) {
+          registerSpeaker(resolved.newProfile);
+          speakersRef.current = [...speakersRef.current, resolved.newProfile];
+        }
+        const speaker = speakersRef.current.find(s => s.id === resolved.speakerId);
+
+        // The first chunk's turn id doubles as the id of the whole paragraph
+        let paragraphId: string | undefined;
+        segmentParagraph(resolved.text, segmenterOptions).forEach((seg, segmentIndex) => {
+          const turnId = crypto.randomUUID();
+          if (!paragraphId) {
+            paragraphId = turnId;
+            deltaTrackerRef.current.setParagraphId(sessionKey, change.index, paragraphId);
+          }
+
+          addTurn({
             id: turnId,
             role: 'system',
-            text: uiText, 
-            translation: '', 
-            sourceText: seg, 
+            text: seg,
+            translation: '',
+            sourceText: change.text,
             isFinal: true,
-            speaker: speaker 
+            speaker: speaker?.name,
+            speakerId: speaker?.id,
+            revisionOf,
           });
 
-           queueRef.current.push({ text: seg, refData: data, turnId });
-           
-           paragraphCountRef.current += 1;
-           if (paragraphCountRef.current > 0 && paragraphCountRef.current % 3 === 0) {
-              queueRef.current.push({ text: '(clears throat)', refData: null, turnId: undefined });
-           }
+          queueRef.current.push({
+            text: seg,
+            refData: origin,
+            turnId,
+            paragraphId,
+            paragraphIndex: change.index,
+            segmentIndex,
+            speaker: resolved.speakerId,
+            enqueuedAt: Date.now(),
+          });
         });
-        processQueueLoop();
-      }
-    };
 
-    const fetchLatest = async () => {
-      try {
-        // Use maybeSingle to safely handle 0 or 1 rows
-        const { data, error } = await supabase
-          .from('transcripts')
-          .select('*')
-          .order('updated_at', { ascending: false })
-          .limit(1)
-          .maybeSingle();
-        
-        if (error) {
-          console.warn('Supabase polling warning:', error.message);
-          return;
+        paragraphCountRef.current += 1;
+        if (paragraphCountRef.current > 0 && paragraphCountRef.current % 3 === 0) {
+          queueRef.current.push({ text: '(clears throat)', refData: null, turnId: undefined, enqueuedAt: Date.now() });
         }
+      });
+      persistQueue();
+      processQueueLoop();
+    };
 
-        if (data) {
-          processNewData(data as Transcript);
-        }
-      } catch (err) {
-        console.warn('Supabase connection error - retrying:', err);
+    processNewDataRef.current = processNewData;
+
+    return () => {
+      processNewDataRef.current = null;
+      processQueueRef.current = null;
+      returnPipelineToQueue();
+      setPlaybackRate(1);
+      setQueueStats({ lagSeconds: 0, queueLength: queueRef.current.length, playbackRate: 1 });
+      if (timerRef.current) {
+        timerRef.current.terminate();
+        timerRef.current = null;
       }
     };
+  }, [active, client, addTurn, updateTurn, removeTurns, registerSpeaker, getAudioStreamerState, setPlaybackRate, setQueueStats, requestSegment, releaseSegment, cancelSegment, replaySegment, reconnectSpeaker, addOutputListener, workerWait, persistQueue, resolveItemSpeaker, setOutputText]);
 
-    if (!workerRef.current) {
-        const blob = new Blob([workerScript], { type: 'application/javascript' });
-        workerRef.current = new Worker(URL.createObjectURL(blob));
-        workerRef.current.onmessage = (e) => {
-          if (e.data?.type === 'tick') fetchLatest();
-          else if (e.data?.type === 'wait_complete') {
-             const resolve = pendingWaitsRef.current.get(e.data.id);
-             if (resolve) {
-                resolve();
-                pendingWaitsRef.current.delete(e.data.id);
-             }
-          }
-        };
-        workerRef.current.postMessage('start');
-    }
-
-    const channel = supabase
-      .channel('bridge-realtime-opt')
-      .on(
-        'postgres_changes',
-        { event: '*', schema: 'public', table: 'transcripts' },
-        (payload) => {
-          if (payload.new) processNewData(payload.new as Transcript);
+  // Failed segments go back to the front of the queue when the user retries them
+  useEffect(() => {
+    if (pendingRetries.length === 0) return;
+    const retried = pendingRetries
+      .map(turnId => failedItemsRef.current.get(turnId))
+      .filter((item): item is QueueItem => !!item)
+      .map(item => ({ ...item, attempts: 0, enqueuedAt: Date.now() }));
+
+    retried.forEach(item => {
+      failedItemsRef.current.delete(item.turnId!);
+      updateTurn(item.turnId!, { status: undefined, attempts: 0 });
+    });
+    queueRef.current = [...retried, ...queueRef.current];
+    clearRetries(pendingRetries);
+    persistQueue();
+    processQueueRef.current?.();
+  }, [pendingRetries, clearRetries, updateTurn, persistQueue]);
+
+  // The feed restarts whenever the source or followed session changes; the
+  // processing loop above keeps running with whatever is already queued.
+  useEffect(() => {
+    if (!active) return;
+
+    // In newest mode, the session we locked onto and when it started
+    let followed: { sessionId: string; createdAt: string } | null = null;
+    setFollowedSessionId(
+      transcriptSubscription.mode === 'session' ? transcriptSubscription.sessionId || null : null
+    );
+
+    const transcriptFeed = createTranscriptSource(transcriptSource, transcriptSubscription);
+    const onTranscript = (data: Transcript) => {
+      if (data.session_id) upsertSessions([summarizeTranscript(data)]);
+      if (!matchesSubscription(data, transcriptSubscription)) return;
+
+      if (transcriptSubscription.mode === 'newest') {
+        if (!followed || (data.session_id !== followed.sessionId && data.created_at > followed.createdAt)) {
+          followed = { sessionId: data.session_id, createdAt: data.created_at };
+          setFollowedSessionId(data.session_id);
+        } else if (data.session_id !== followed.sessionId) {
+          return;
         }
-      )
-      .subscribe();
+      }
+
+      setLastTranscript(data);
+      processNewDataRef.current?.(data);
+    };
+    const onSourceError = (err: Error) => {
+      console.warn('Transcript source error:', err.message);
+    };
+    transcriptFeed.on('transcript', onTranscript);
+    transcriptFeed.on('status', setSourceStatus);
+    transcriptFeed.on('error', onSourceError);
 
-    fetchLatest();
+    let cancelled = false;
+    restoreRef.current?.finally(() => {
+      if (!cancelled) transcriptFeed.start();
+    });
 
     return () => {
-      if (workerRef.current) {
-        workerRef.current.terminate();
-        workerRef.current = null;
-      }
-      supabase.removeChannel(channel);
+      cancelled = true;
+      transcriptFeed.stop();
+      transcriptFeed.off('transcript', onTranscript);
+      transcriptFeed.off('status', setSourceStatus);
+      transcriptFeed.off('error', onSourceError);
     };
-  }, [connected, client, addTurn, updateTurn, getAudioStreamerState, sendToSpeaker, addOutputListener, workerWait]);
+  }, [active, transcriptSource, transcriptSubscription, setSourceStatus, setLastTranscript, upsertSessions, setFollowedSessionId]);
 
   return null;
 }
\ No newline at end of file
@@ -0,0 +1,139 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { useEffect, useRef, useState } from 'react';
+import { useLiveAPIContext } from '../contexts/LiveAPIContext';
+import { AudioRecorder } from '../lib/audio-recorder';
+import { INPUT_MIME_TYPE, INPUT_MODE_LABELS, INPUT_SAMPLE_RATE, isAudioInput } from '../lib/live-input';
+import { useLiveInput, useLogStore, useSettings } from '../lib/state';
+import { detectDirection, Direction, languagePair, reverseDirection, targetOf } from '../lib/two-way';
+
+// An utterance and its interpretation, shown as one card
+type LiveTurn = {
+  id: string;
+  source: string;
+  translation: string;
+  direction?: Direction;
+};
+
+/**
+ * Streams the microphone or an audio file to the main session while the
+ * input mode asks for it, and turns the input and output transcriptions
+ * into cards.
+ */
+export default function LiveInputBridge() {
+  const { client, connected } = useLiveAPIContext();
+  const inputMode = useSettings(state => state.inputMode);
+  const { muted, file, setStatus, setVolume, setProgress } = useLiveInput();
+  const { addTurn, updateTurn } = useLogStore();
+  const [recorder] = useState(() => new AudioRecorder(INPUT_SAMPLE_RATE));
+
+  const mutedRef = useRef(muted);
+  useEffect(() => { mutedRef.current = muted; }, [muted]);
+
+  useEffect(() => {
+    if (!connected || !isAudioInput(inputMode)) return;
+    if (inputMode === 'audio-file' && !file) {
+      setStatus('idle');
+      return;
+    }
+
+    let cancelled = false;
+    const onData = (data: string) => {
+      // Chunks recorded while the session is being reopened are dropped
+      if (mutedRef.current || client.status !== 'connected') return;
+      client.sendRealtimeInput([{ mimeType: INPUT_MIME_TYPE, data }]);
+    };
+    const onProgress = (seconds: number, duration: number) => setProgress({ seconds, duration });
+    const onEnded = () => {
+      client.endAudioStream();
+      setVolume(0);
+      setStatus('ended');
+    };
+    recorder.on('data', onData).on('volume', setVolume).on('progress', onProgress).on('ended', onEnded);
+
+    setStatus('starting');
+    (inputMode === 'microphone' ? recorder.start() : recorder.startFile(file!))
+      .then(() => {
+        if (!cancelled) setStatus('live');
+      })
+      .catch(e => {
+        if (cancelled) return;
+        console.warn('Failed to start audio input:', e);
+        setStatus('error', e?.message || String(e));
+      });
+
+    return () => {
+      cancelled = true;
+      recorder.off('data', onData).off('volume', setVolume).off('progress', onProgress).off('ended', onEnded);
+      recorder.stop();
+      setVolume(0);
+      setStatus('idle');
+    };
+  }, [connected, client, inputMode, file, recorder, setStatus, setVolume, setProgress]);
+
+  // Muting ends the utterance in progress so it is interpreted right away
+  useEffect(() => {
+    if (muted && connected && isAudioInput(inputMode)) client.endAudioStream();
+  }, [muted, connected, client, inputMode]);
+
+  useEffect(() => {
+    if (!isAudioInput(inputMode)) return;
+    const speaker = INPUT_MODE_LABELS[inputMode];
+    // Utterances still being interpreted, oldest first; the model answers them in order
+    const pending: LiveTurn[] = [];
+    let lastDirection: Direction = 'a-to-b';
+    const openTurn = () => {
+      const turn: LiveTurn = { id: `live-${crypto.randomUUID()}`, source: '', translation: '' };
+      pending.push(turn);
+      addTurn({ id: turn.id, role: 'system', text: '', translation: '', isFinal: false, speaker });
+      return turn;
+    };
+
+    // In two-way mode the utterance tells the direction, or else the interpretation
+    // does, being in the language the utterance was not
+    const directionOf = (turn: LiveTurn, pair: [string, string]): Direction =>
+      turn.source.trim()
+        ? detectDirection(turn.source, pair, lastDirection)
+        : reverseDirection(detectDirection(turn.translation, pair, reverseDirection(lastDirection)));
+
+    const onInput = (text: string) => {
+      if (!text) return;
+      const last = pending[pending.length - 1];
+      // Speech after the interpretation started belongs to the next utterance
+      const turn = last && !last.translation ? last : openTurn();
+      turn.source += text;
+      const pair = languagePair(useSettings.getState());
+      if (pair) turn.direction = lastDirection = directionOf(turn, pair);
+      updateTurn(turn.id, { text: turn.source.trim(), sourceText: turn.source.trim(), direction: turn.direction });
+    };
+    const onOutput = (text: string) => {
+      if (!text) return;
+      const turn = pending[0] || openTurn();
+      turn.translation += text;
+      const translation = turn.translation.trim();
+      const settings = useSettings.getState();
+      const pair = languagePair(settings);
+      if (pair && !turn.direction) turn.direction = lastDirection = directionOf(turn, pair);
+      const language = pair && turn.direction ? targetOf(turn.direction, pair) : settings.language;
+      updateTurn(turn.id, { translation, translations: { [language]: translation }, direction: turn.direction });
+    };
+    const onTurnComplete = () => {
+      const turn = pending.shift();
+      if (turn) updateTurn(turn.id, { isFinal: true });
+    };
+
+    client.on('inputTranscription', onInput);
+    client.on('outputTranscription', onOutput);
+    client.on('turncomplete', onTurnComplete);
+    return () => {
+      client.off('inputTranscription', onInput);
+      client.off('outputTranscription', onOutput);
+      client.off('turncomplete', onTurnComplete);
+      pending.forEach(turn => updateTurn(turn.id, { isFinal: true }));
+    };
+  }, [client, inputMode, addTurn, updateTurn]);
+
+  return null;
+}
@@ -0,0 +1,224 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { ChangeEvent, useMemo, useState } from 'react';
+import c from 'classnames';
+import { FunctionCall } from '@/lib/state';
+import {
+  defaultBaseUrl,
+  listOperations,
+  OpenApiDocument,
+  parseOpenApi,
+} from '@/lib/openapi-import';
+import { parseHeaders } from '@/lib/tool-executors';
+import { functionDeclaration } from '@/lib/tool-runner';
+import Modal from './Modal';
+
+type OpenApiImportModalProps = {
+  // Names already taken; clashing imports are renamed when added
+  existingNames: string[];
+  onClose: () => void;
+  onImport: (tools: FunctionCall[]) => void;
+};
+
+export default function OpenApiImportModal({ existingNames, onClose, onImport }: OpenApiImportModalProps) {
+  const [sourceUrl, setSourceUrl] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [doc, setDoc] = useState<OpenApiDocument | null>(null);
+  const [baseUrl, setBaseUrl] = useState('');
+  const [headersStr, setHeadersStr] = useState('');
+  const [filter, setFilter] = useState('');
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const operations = useMemo(() => (doc ? listOperations(doc, baseUrl) : []), [doc, baseUrl]);
+  const visible = operations.filter(op =>
+    `${op.key} ${op.tool.name} ${op.summary}`.toLowerCase().includes(filter.trim().toLowerCase()));
+
+  const load = (text: string, from?: string) => {
+    try {
+      const parsed = parseOpenApi(text);
+      const ops = listOperations(parsed, '');
+      setDoc(parsed);
+      setBaseUrl(defaultBaseUrl(parsed, from));
+      setSelected(new Set(ops.filter(op => !op.deprecated).map(op => op.key)));
+      setExpanded(null);
+      setError(null);
+    } catch (e: any) {
+      setError(e.message);
+    }
+  };
+
+  const handleFetch = async () => {
+    if (!sourceUrl.trim()) return;
+    setLoading(true);
+    try {
+      const response = await fetch(sourceUrl.trim());
+      if (!response.ok) throw new Error(`HTTP ${response.status} ${response.statusText}`.trim());
+      load(await response.text(), response.url || sourceUrl.trim());
+    } catch (e: any) {
+      setError(`Could not load the document: ${e.message}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleFile = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    file.text()
+      .then(text => load(text))
+      .catch(err => setError(err.message));
+  };
+
+  const toggle = (key: string) =>
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+
+  const allVisibleSelected = visible.length > 0 && visible.every(op => selected.has(op.key));
+  const toggleAll = () =>
+    setSelected(prev => {
+      const next = new Set(prev);
+      visible.forEach(op => (allVisibleSelected ? next.delete(op.key) : next.add(op.key)));
+      return next;
+    });
+
+  const chosen = operations.filter(op => selected.has(op.key));
+
+  const handleImport = () => {
+    const headers = parseHeaders(headersStr);
+    onImport(chosen.map(op => ({
+      ...op.tool,
+      executor: op.tool.executor?.kind === 'http' ? { ...op.tool.executor, headers } : op.tool.executor,
+    })));
+  };
+
+  return (
+    <Modal onClose={onClose}>
+      <div className="tool-editor-modal">
+        <h2>Import from OpenAPI</h2>
+        <div className="form-field">
+          <label htmlFor="openapi-url">OpenAPI document (JSON)</label>
+          <div style={{display: 'flex', gap: '8px'}}>
+            <input
+              id="openapi-url"
+              type="url"
+              value={sourceUrl}
+              onChange={e => setSourceUrl(e.target.value)}
+              onKeyDown={e => e.key === 'Enter' && handleFetch()}
+              placeholder="https://api.example.com/openapi.json"
+            />
+            <button type="button" className="cancel-button openapi-source-button" onClick={handleFetch} disabled={loading}>
+              {loading ? 'Loading…' : 'Load'}
+            </button>
+            <label className="cancel-button openapi-source-button">
+              File
+              <input type="file" accept=".json,application/json" onChange={handleFile} style={{display: 'none'}} />
+            </label>
+          </div>
+          {error && <p className="json-error">{error}</p>}
+        </div>
+
+        {doc && (
+          <>
+            <div className="form-field">
+              <label htmlFor="openapi-base-url">Base URL</label>
+              <input
+                id="openapi-base-url"
+                type="url"
+                value={baseUrl}
+                onChange={e => setBaseUrl(e.target.value)}
+                placeholder="https://api.example.com/v1"
+              />
+            </div>
+            <div className="form-field">
+              <label htmlFor="openapi-headers">Headers for every call (one "Name: value" per line)</label>
+              <textarea
+                id="openapi-headers"
+                className="json-editor"
+                value={headersStr}
+                onChange={e => setHeadersStr(e.target.value)}
+                rows={2}
+                style={{minHeight: '56px'}}
+                placeholder="Authorization: Bearer …"
+              />
+            </div>
+            <div className="form-field">
+              <div className="parameters-header">
+                <label>
+                  Operations ({chosen.length} of {operations.length} selected)
+                </label>
+                <button type="button" className="add-property" onClick={toggleAll} style={{border: 'none', padding: 0}}>
+                  {allVisibleSelected ? 'Select none' : 'Select all'}
+                </button>
+              </div>
+              {operations.length > 8 && (
+                <input
+                  type="search"
+                  value={filter}
+                  onChange={e => setFilter(e.target.value)}
+                  placeholder="Filter by path, name or summary"
+                />
+              )}
+              <div className="openapi-operations">
+                {visible.map(op => (
+                  <div key={op.key} className={c('openapi-operation', { deprecated: op.deprecated })}>
+                    <div className="property-row-line">
+                      <input
+                        type="checkbox"
+                        checked={selected.has(op.key)}
+                        onChange={() => toggle(op.key)}
+                        style={{accentColor: 'var(--accent-orbit)'}}
+                      />
+                      <span className={c('http-method', op.method.toLowerCase())}>{op.method}</span>
+                      <div className="openapi-operation-name" title={op.summary}>
+                        {op.tool.name}
+                        {existingNames.includes(op.tool.name) && <em> (name taken; will be renamed)</em>}
+                        <span>{op.path}{op.summary && ` · ${op.summary}`}</span>
+                      </div>
+                      <button
+                        type="button"
+                        onClick={() => setExpanded(expanded === op.key ? null : op.key)}
+                        title="Preview the declaration"
+                      >
+                        <span className="material-symbols-outlined">
+                          {expanded === op.key ? 'expand_less' : 'expand_more'}
+                        </span>
+                      </button>
+                    </div>
+                    {op.warnings.length > 0 && (
+                      <ul className="schema-issues openapi-warnings">
+                        {op.warnings.map(warning => <li key={warning}>{warning}</li>)}
+                      </ul>
+                    )}
+                    {expanded === op.key && (
+                      <pre className="json-editor json-preview">
+                        {JSON.stringify({ declaration: functionDeclaration(op.tool), executor: op.tool.executor }, null, 2)}
+                      </pre>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          </>
+        )}
+
+        <div className="modal-actions">
+          <button onClick={onClose} className="cancel-button">
+            Cancel
+          </button>
+          <button onClick={handleImport} className="save-button" disabled={chosen.length === 0}>
+            Add {chosen.length || ''} tool{chosen.length === 1 ? '' : 's'}
+          </button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
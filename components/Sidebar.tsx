@@ -2,61 +2,181 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import { useSettings, useUI, VoiceStyle } from '@/lib/state';
+import { FunctionCall, targetLanguages, Template, useBridgeStatus, useLiveInput, useSettings, useSpeakers, useTools, useUI, VoiceStyle } from '@/lib/state';
 import c from 'classnames';
 import { useLiveAPIContext } from '@/contexts/LiveAPIContext';
-import { useEffect, useState } from 'react';
-import { supabase, Transcript } from '@/lib/supabase';
+import { ChangeEvent, useCallback, useEffect, useState } from 'react';
 import { SUPPORTED_LANGUAGES, AVAILABLE_VOICES } from '@/lib/constants';
+import { SegmentMode } from '@/lib/segmenter';
+import { MAX_AUTO_SPEAKERS, SpeakerTagMode } from '@/lib/speakers';
+import { LAG_POLICY_LABELS, LagPolicy } from '@/lib/lag-policy';
+import { ROLLOVER_OPTIONS } from '@/lib/long-session';
+import { clearMemory, memoryStats } from '@/lib/translation-memory';
+import { createGlossaryEntry } from '@/lib/glossary';
+import { translationOutbox } from '@/lib/translation-outbox';
+import {
+  disableWebhooks,
+  exportTemplates,
+  isUserTemplate,
+  parseTemplateFile,
+  PRESET_TEMPLATES,
+  templateWebhooks,
+} from '@/lib/templates';
+import { TOOL_EXECUTOR_LABELS } from '@/lib/tool-executors';
+import ToolEditorModal from './ToolEditorModal';
+import ToolTestModal from './ToolTestModal';
+import OpenApiImportModal from './OpenApiImportModal';
+import { INPUT_MODE_LABELS, InputMode } from '@/lib/live-input';
+import { MOCK_SCENARIOS, MockScenarioId } from '@/lib/mock-live';
+import {
+  fetchSupabaseSessions,
+  TRANSCRIPT_SOURCE_LABELS,
+  TranscriptSessionSummary,
+  TranscriptSourceKind,
+} from '@/lib/transcript-sources';
+
+const NEWEST_SESSION_OPTION = '__newest__';
+
+const describeSession = (s: TranscriptSessionSummary) => {
+  const id = s.session_id.length > 12 ? `${s.session_id.substring(0, 8)}...` : s.session_id;
+  const time = s.updated_at ? new Date(s.updated_at).toLocaleTimeString() : '?';
+  return `${id} · ${s.user_id || 'unknown user'} · ${time}`;
+};
 
 export default function Sidebar() {
   const { isSidebarOpen, toggleSidebar } = useUI();
   const { 
     language, setLanguage, 
+    additionalLanguages, setAdditionalLanguages,
     voice, setVoice, 
     voiceStyle, setVoiceStyle,
     speechRate, setSpeechRate,
     backgroundPadEnabled, setBackgroundPadEnabled,
-    backgroundPadVolume, setBackgroundPadVolume
+    backgroundPadVolume, setBackgroundPadVolume,
+    inputMode, setInputMode,
+    twoWay, setTwoWay,
+    mockScenario, setMockScenario,
+    transcriptSource, setTranscriptSource,
+    transcriptSubscription, setTranscriptSubscription,
+    segmentation, setSegmentation,
+    speakerTags, setSpeakerTags,
+    lagPolicy, setLagPolicy,
+    longSession, setLongSession,
+    pipelineDepth, setPipelineDepth,
+    translationMemory, setTranslationMemory,
+    glossary, addGlossaryEntry, updateGlossaryEntry, removeGlossaryEntry
   } = useSettings();
+  const { speakers, addSpeaker, updateSpeaker, removeSpeaker } = useSpeakers();
+  const {
+    tools, template, savedTemplates, setTemplate, saveTemplate, removeTemplate, addSavedTemplates,
+    addTool, addTools, toggleTool, duplicateTool, removeTool, updateTool,
+  } = useTools();
+  const [editingTool, setEditingTool] = useState<FunctionCall | null>(null);
+  const [testingTool, setTestingTool] = useState<FunctionCall | null>(null);
+  const [importingOpenApi, setImportingOpenApi] = useState(false);
+  const { file: inputFile, setFile: setInputFile } = useLiveInput();
   const { connected } = useLiveAPIContext();
-  const [dbData, setDbData] = useState<Transcript | null>(null);
+  const { lastTranscript: dbData, sourceStatus, sessions, followedSessionId, upsertSessions, resumedCount, outboxPending, outboxFailed, outboxError } = useBridgeStatus();
+  const sourceLabel = TRANSCRIPT_SOURCE_LABELS[transcriptSource.kind];
+  const [isLoadingSessions, setIsLoadingSessions] = useState(false);
+  const needsSessionChoice = transcriptSubscription.mode === 'session' && !transcriptSubscription.sessionId;
+
+  const refreshSessions = useCallback(() => {
+    if (transcriptSource.kind !== 'supabase') return;
+    setIsLoadingSessions(true);
+    fetchSupabaseSessions(transcriptSubscription.userId || undefined)
+      .then(upsertSessions)
+      .catch(err => console.warn('Failed to list sessions:', err))
+      .finally(() => setIsLoadingSessions(false));
+  }, [transcriptSource.kind, transcriptSubscription.userId, upsertSessions]);
 
   useEffect(() => {
-    // Correctly handle single row return
-    supabase
-      .from('transcripts')
-      .select('*')
-      .order('updated_at', { ascending: false })
-      .limit(1)
-      .maybeSingle()
-      .then(({ data, error }) => {
-        if (!error && data) {
-          setDbData(data);
-        }
-      })
-      .catch((err) => {
-        console.warn("Failed to fetch sidebar data:", err);
-      });
-
-    const channel = supabase
-      .channel('sidebar-db-monitor')
-      .on(
-        'postgres_changes',
-        { event: '*', schema: 'public', table: 'transcripts' },
-        (payload) => {
-          if (payload.new) {
-             setDbData(payload.new as Transcript);
-          }
-        }
-      )
-      .subscribe();
-
-    return () => {
-      supabase.removeChannel(channel);
-    };
+    if (isSidebarOpen) refreshSessions();
+  }, [isSidebarOpen, refreshSessions]);
+
+  const [memoryUsage, setMemoryUsage] = useState({ entries: 0, bytes: 0 });
+  const refreshMemoryUsage = useCallback(() => {
+    memoryStats().then(setMemoryUsage);
   }, []);
 
+  useEffect(() => {
+    if (isSidebarOpen) refreshMemoryUsage();
+  }, [isSidebarOpen, refreshMemoryUsage]);
+
+  const handleClearMemory = () => {
+    if (!window.confirm('Delete all cached translations and audio?')) return;
+    clearMemory()
+      .catch(err => console.warn('Failed to clear translation memory:', err))
+      .finally(refreshMemoryUsage);
+  };
+
+  const visibleSessions = transcriptSubscription.userId
+    ? sessions.filter(s => s.user_id === transcriptSubscription.userId)
+    : sessions;
+
+  const handleFollowChange = (value: string) => {
+    if (value === NEWEST_SESSION_OPTION) {
+      setTranscriptSubscription({ mode: 'newest', sessionId: '' });
+    } else {
+      setTranscriptSubscription({ mode: 'session', sessionId: value });
+    }
+  };
+
+  const allTemplates = [...PRESET_TEMPLATES, ...savedTemplates];
+  const currentTemplate = allTemplates.find(t => t.id === template);
+  const [templateError, setTemplateError] = useState<string | null>(null);
+
+  const handleSaveTemplate = () => {
+    const name = window.prompt('Name of the new template', currentTemplate ? `${currentTemplate.name} (copy)` : '');
+    if (name?.trim()) saveTemplate(name.trim());
+  };
+
+  const handleExportTemplate = () => {
+    if (!currentTemplate) return;
+    // Exports what is loaded now, including edits made to the template's tools
+    const json = exportTemplates([{ ...currentTemplate, tools }]);
+    const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${currentTemplate.name.replace(/[^\w-]+/g, '-').toLowerCase()}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImportTemplates = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    file.text()
+      .then(text => {
+        const parsed = parseTemplateFile(text);
+        // Webhooks send the model's arguments to whatever URL the file names
+        const webhooks = templateWebhooks(parsed);
+        const trusted = webhooks.length === 0 || window.confirm(
+          `The imported tools call these webhooks:\n\n${webhooks.join('\n')}\n\nEnable them? Cancel imports them turned off.`
+        );
+        const imported = trusted ? parsed : disableWebhooks(parsed);
+        addSavedTemplates(imported);
+        setTemplate(imported[0].id);
+        setTemplateError(null);
+      })
+      .catch(err => setTemplateError(err.message));
+  };
+
+  const handleInputFile = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) setInputFile(file);
+  };
+
+  const handleReplayFile = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    file.text()
+      .then(text => setTranscriptSource({ replayText: text, replayFileName: file.name }))
+      .catch(err => console.warn('Failed to read replay file:', err));
+  };
+
   return (
     <>
       <aside className={c('sidebar', { open: isSidebarOpen })}>
@@ -70,12 +190,21 @@ export default function Sidebar() {
           <div className="sidebar-section">
             <h4 className="sidebar-section-title">Database Monitor</h4>
             <div style={{ fontSize: '12px', background: 'var(--bg-overlay)', padding: '12px', borderRadius: '12px', border: '1px solid var(--border-subtle)' }}>
+              {resumedCount > 0 && (
+                <div style={{ display: 'flex', alignItems: 'center', gap: '6px', marginBottom: '8px', color: 'var(--accent-orbit)', fontSize: '11px' }}>
+                  <span className="material-symbols-outlined" style={{fontSize: '14px'}}>history</span>
+                  Resumed {resumedCount} pending segment{resumedCount === 1 ? '' : 's'} from before reload
+                </div>
+              )}
               {dbData ? (
                 <>
                   <div style={{ marginBottom: '8px', borderBottom: '1px solid var(--border-subtle)', paddingBottom: '8px' }}>
                     <div style={{ color: 'var(--text-dim)', fontSize: '10px', textTransform: 'uppercase' }}>
                       Current ID: {dbData.id?.substring ? dbData.id.substring(0, 8) : 'N/A'}...
                     </div>
+                    <div style={{ color: 'var(--text-dim)', fontSize: '10px', textTransform: 'uppercase' }}>
+                      Session: {followedSessionId ? followedSessionId.substring(0, 8) : 'N/A'}...{transcriptSubscription.mode === 'newest' ? ' (newest)' : ''}
+                    </div>
                     <div style={{ color: 'var(--text-stardust)', fontSize: '10px' }}>
                       {dbData.updated_at ? new Date(dbData.updated_at).toLocaleTimeString() : 'Unknown Time'}
                     </div>
@@ -91,15 +220,171 @@ export default function Sidebar() {
                     <div style={{ color: 'var(--text-stardust)', marginTop: '4px', fontSize: '11px' }}>Sent to Audio Engine</div>
                   </div>
                 </>
+              ) : needsSessionChoice ? (
+                <div style={{color: 'var(--text-stardust)'}}>
+                  Select a session to follow below.
+                </div>
+              ) : sourceStatus === 'idle' ? (
+                <div style={{color: 'var(--text-stardust)'}}>
+                  {sourceLabel} idle. Start streaming to connect.
+                </div>
               ) : (
                 <div style={{display: 'flex', alignItems: 'center', gap: '8px', color: 'var(--text-stardust)'}}>
                   <span className="material-symbols-outlined" style={{fontSize: '16px', animation: 'spin 2s linear infinite'}}>sync</span>
-                  Connecting to Eburon DB...
+                  Connecting to {sourceLabel}...
+                </div>
+              )}
+              {(outboxPending > 0 || outboxFailed > 0) && (
+                <div
+                  title={outboxError || undefined}
+                  style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '6px', marginTop: '8px', paddingTop: '8px', borderTop: '1px solid var(--border-subtle)', fontSize: '11px', color: outboxFailed > 0 ? 'var(--accent-signal)' : 'var(--text-stardust)' }}
+                >
+                  <span style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+                    <span className="material-symbols-outlined" style={{fontSize: '14px'}}>outbox</span>
+                    Outbox: {outboxPending} pending{outboxFailed > 0 ? ` · ${outboxFailed} failed` : ''}
+                  </span>
+                  {outboxFailed > 0 && (
+                    <button
+                      type="button"
+                      onClick={() => translationOutbox.retryFailed()}
+                      title="Try saving the failed translations again"
+                      style={{display: 'flex', alignItems: 'center', gap: '4px', color: 'var(--text-stardust)', fontSize: '11px'}}
+                    >
+                      <span className="material-symbols-outlined" style={{fontSize: '14px'}}>refresh</span>
+                      Retry
+                    </button>
+                  )}
+                </div>
+              )}
+            </div>
+          </div>
+
+          <div className="sidebar-section">
+            <h4 className="sidebar-section-title">Input</h4>
+            <div style={{display: 'flex', flexDirection: 'column', gap: '1rem'}}>
+              <select
+                value={inputMode}
+                onChange={e => setInputMode(e.target.value as InputMode)}
+                disabled={connected}
+              >
+                {(Object.keys(INPUT_MODE_LABELS) as InputMode[]).map(mode => (
+                  <option key={mode} value={mode}>{INPUT_MODE_LABELS[mode]}</option>
+                ))}
+              </select>
+              {inputMode === 'audio-file' && (
+                <div>
+                  <label style={{display: 'block', marginBottom: '8px', fontSize: '0.75rem', color: 'var(--text-stardust)', fontWeight: 600}}>AUDIO FILE (.wav, .mp3, .ogg, …)</label>
+                  <input type="file" accept="audio/*" onChange={handleInputFile} />
+                  {inputFile && (
+                    <div style={{fontSize: '0.7rem', color: 'var(--text-dim)', marginTop: '4px'}}>
+                      Loaded: {inputFile.name}{connected ? ' (choosing another file plays it right away)' : ''}
+                    </div>
+                  )}
+                </div>
+              )}
+              {inputMode !== 'transcript' && (
+                <div style={{fontSize: '0.7rem', color: 'var(--text-dim)'}}>
+                  Speech is interpreted into {twoWay.enabled && twoWay.languageA !== language
+                    ? `${language} or ${twoWay.languageA}, whichever was not spoken,`
+                    : language} by the default voice. The transcript source,
+                  speakers and additional languages are not used.
                 </div>
               )}
             </div>
           </div>
 
+          <div className="sidebar-section">
+            <h4 className="sidebar-section-title">Transcript Source</h4>
+            <fieldset disabled={connected} style={{border: 'none', padding: 0, margin: 0, display: 'flex', flexDirection: 'column', gap: '1rem'}}>
+              <select
+                value={transcriptSource.kind}
+                onChange={e => setTranscriptSource({ kind: e.target.value as TranscriptSourceKind })}
+              >
+                {(Object.keys(TRANSCRIPT_SOURCE_LABELS) as TranscriptSourceKind[]).map(kind => (
+                  <option key={kind} value={kind}>{TRANSCRIPT_SOURCE_LABELS[kind]}</option>
+                ))}
+              </select>
+
+              {(transcriptSource.kind === 'websocket' || transcriptSource.kind === 'long-poll') && (
+                <div>
+                  <label style={{display: 'block', marginBottom: '8px', fontSize: '0.75rem', color: 'var(--text-stardust)', fontWeight: 600}}>ENDPOINT URL</label>
+                  <input
+                    type="url"
+                    value={transcriptSource.url}
+                    placeholder={transcriptSource.kind === 'websocket' ? 'wss://captions.example.com/feed' : 'https://captions.example.com/poll'}
+                    onChange={e => setTranscriptSource({ url: e.target.value.trim() })}
+                  />
+                </div>
+              )}
+
+              {transcriptSource.kind === 'replay' && (
+                <>
+                  <div>
+                    <label style={{display: 'block', marginBottom: '8px', fontSize: '0.75rem', color: 'var(--text-stardust)', fontWeight: 600}}>TRANSCRIPT FILE (.txt, .json, .jsonl)</label>
+                    <input type="file" accept=".txt,.json,.jsonl,text/plain,application/json" onChange={handleReplayFile} />
+                    {transcriptSource.replayFileName && (
+                      <div style={{fontSize: '0.7rem', color: 'var(--text-dim)', marginTop: '4px'}}>
+                        Loaded: {transcriptSource.replayFileName}
+                      </div>
+                    )}
+                  </div>
+                  <div>
+                    <label style={{display: 'block', marginBottom: '8px', fontSize: '0.75rem', color: 'var(--text-stardust)', fontWeight: 600}}>REPLAY STEP: {transcriptSource.replayIntervalMs / 1000}s</label>
+                    <input
+                      type="range"
+                      min="500"
+                      max="15000"
+                      step="500"
+                      value={transcriptSource.replayIntervalMs}
+                      onChange={e => setTranscriptSource({ replayIntervalMs: parseInt(e.target.value, 10) })}
+                      style={{width: '100%', cursor: 'pointer', accentColor: 'var(--accent-orbit)'}}
+                    />
+                  </div>
+                </>
+              )}
+            </fieldset>
+            <div style={{display: 'flex', flexDirection: 'column', gap: '1rem', marginTop: '1rem'}}>
+              <div>
+                <label style={{display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '8px', fontSize: '0.75rem', color: 'var(--text-stardust)', fontWeight: 600}}>
+                  FOLLOW SESSION
+                  {transcriptSource.kind === 'supabase' && (
+                    <button
+                      type="button"
+                      onClick={refreshSessions}
+                      title="Refresh active sessions"
+                      style={{color: 'var(--text-stardust)', display: 'flex'}}
+                    >
+                      <span className="material-symbols-outlined" style={{fontSize: '16px', animation: isLoadingSessions ? 'spin 2s linear infinite' : undefined}}>refresh</span>
+                    </button>
+                  )}
+                </label>
+                <select
+                  value={transcriptSubscription.mode === 'newest' ? NEWEST_SESSION_OPTION : transcriptSubscription.sessionId}
+                  onChange={e => handleFollowChange(e.target.value)}
+                >
+                  <option value="" disabled>Select a session...</option>
+                  <option value={NEWEST_SESSION_OPTION}>Follow newest session</option>
+                  {transcriptSubscription.sessionId && !visibleSessions.some(s => s.session_id === transcriptSubscription.sessionId) && (
+                    <option value={transcriptSubscription.sessionId}>{transcriptSubscription.sessionId}</option>
+                  )}
+                  {visibleSessions.map(session => (
+                    <option key={session.session_id} value={session.session_id}>{describeSession(session)}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label style={{display: 'block', marginBottom: '8px', fontSize: '0.75rem', color: 'var(--text-stardust)', fontWeight: 600}}>USER ID (OPTIONAL)</label>
+                <input
+                  type="text"
+                  value={transcriptSubscription.userId}
+                  placeholder="Any user"
+                  onChange={e => setTranscriptSubscription({ userId: e.target.value.trim() })}
+                />
+              </div>
+            </div>
+          </div>
+
           <div className="sidebar-section">
             <fieldset disabled={connected} style={{border: 'none', padding: 0, margin: 0}}>
               <div style={{marginBottom: '1.5rem'}}>
@@ -115,6 +400,41 @@ export default function Sidebar() {
                 </select>
               </div>
 
+              <div style={{marginBottom: '1.5rem'}}>
+                <label style={{display: 'block', marginBottom: '8px', fontSize: '0.75rem', color: 'var(--text-stardust)', fontWeight: 600}}>ALSO TRANSLATE INTO</label>
+                {additionalLanguages.length > 0 && (
+                  <div style={{display: 'flex', flexWrap: 'wrap', gap: '6px', marginBottom: '8px'}}>
+                    {additionalLanguages.map(lang => (
+                      <span key={lang} style={{display: 'flex', alignItems: 'center', gap: '4px', padding: '4px 8px', borderRadius: '12px', background: 'var(--bg-overlay)', fontSize: '0.8rem', color: 'var(--text-nebula)'}}>
+                        {lang}
+                        <button
+                          type="button"
+                          onClick={() => setAdditionalLanguages(additionalLanguages.filter(l => l !== lang))}
+                          title={`Stop translating into ${lang}`}
+                          style={{color: 'var(--text-dim)', display: 'flex'}}
+                        >
+                          <span className="material-symbols-outlined" style={{fontSize: '14px'}}>close</span>
+                        </button>
+                      </span>
+                    ))}
+                  </div>
+                )}
+                <select
+                  value=""
+                  onChange={e => e.target.value && setAdditionalLanguages([...additionalLanguages, e.target.value])}
+                >
+                  <option value="">Add a language...</option>
+                  {SUPPORTED_LANGUAGES.filter(lang => lang !== language && !additionalLanguages.includes(lang)).map(lang => (
+                    <option key={lang} value={lang}>{lang}</option>
+                  ))}
+                </select>
+                {additionalLanguages.length > 0 && (
+                  <div style={{marginTop: '6px', fontSize: '0.7rem', color: 'var(--text-dim)'}}>
+                    Every segment is spoken in each language by its own sessions; listeners pick one above the subtitles.
+                  </div>
+                )}
+              </div>
+
               <div style={{marginBottom: '1.5rem'}}>
                 <label style={{display: 'block', marginBottom: '8px', fontSize: '0.75rem', color: 'var(--text-stardust)', fontWeight: 600}}>VOICE MODEL</label>
                 <select
@@ -162,6 +482,564 @@ export default function Sidebar() {
             </fieldset>
           </div>
 
+          <div className="sidebar-section">
+            <h4 className="sidebar-section-title">Two-Way Interpretation</h4>
+            <fieldset disabled={connected} style={{border: 'none', padding: 0, margin: 0, display: 'flex', flexDirection: 'column', gap: '1rem'}}>
+              <label style={{display: 'flex', alignItems: 'center', gap: '8px', fontSize: '0.8rem', color: 'var(--text-nebula)', cursor: 'pointer'}}>
+                <input
+                  type="checkbox"
+                  checked={twoWay.enabled}
+                  onChange={e => setTwoWay({ enabled: e.target.checked })}
+                  style={{accentColor: 'var(--accent-orbit)'}}
+                />
+                Interpret both parties of a bilateral meeting
+              </label>
+              {twoWay.enabled && (
+                <>
+                  <div style={{display: 'flex', gap: '12px'}}>
+                    <div style={{flex: 1}}>
+                      <label style={{display: 'block', marginBottom: '8px', fontSize: '0.75rem', color: 'var(--text-stardust)', fontWeight: 600}}>LANGUAGE A</label>
+                      <select
+                        value={twoWay.languageA}
+                        onChange={e => setTwoWay({ languageA: e.target.value })}
+                      >
+                        {SUPPORTED_LANGUAGES.map(lang => (
+                          <option key={lang} value={lang}>{lang}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div style={{flex: 1}}>
+                      <label style={{display: 'block', marginBottom: '8px', fontSize: '0.75rem', color: 'var(--text-stardust)', fontWeight: 600}}>LANGUAGE B</label>
+                      <select
+                        value={language}
+                        onChange={e => setLanguage(e.target.value)}
+                      >
+                        {SUPPORTED_LANGUAGES.map(lang => (
+                          <option key={lang} value={lang}>{lang}</option>
+                        ))}
+                      </select>
+                    </div>
+                  </div>
+                  <div style={{fontSize: '0.7rem', color: 'var(--text-dim)'}}>
+                    {twoWay.languageA === language
+                      ? 'Pick two different languages.'
+                      : `Each segment is recognized as ${twoWay.languageA} or ${language} and spoken in the other one. Language B is the target language above; additional languages are not used.`}
+                  </div>
+                </>
+              )}
+            </fieldset>
+          </div>
+
+          <div className="sidebar-section">
+            <h4 className="sidebar-section-title">Segmentation</h4>
+            <div style={{display: 'flex', flexDirection: 'column', gap: '1rem'}}>
+              <select
+                value={segmentation.mode}
+                onChange={e => setSegmentation({ mode: e.target.value as SegmentMode })}
+              >
+                <option value="newline">By line (split long paragraphs)</option>
+                <option value="sentence">By sentence</option>
+              </select>
+              <div style={{display: 'flex', gap: '12px'}}>
+                <div style={{flex: 1}}>
+                  <label style={{display: 'block', marginBottom: '8px', fontSize: '0.75rem', color: 'var(--text-stardust)', fontWeight: 600}}>MAX CHARS</label>
+                  <input
+                    type="number"
+                    min={40}
+                    max={2000}
+                    step={10}
+                    value={segmentation.maxChars}
+                    onChange={e => setSegmentation({ maxChars: Math.max(40, parseInt(e.target.value, 10) || 40) })}
+                  />
+                </div>
+                <div style={{flex: 1}}>
+                  <label style={{display: 'block', marginBottom: '8px', fontSize: '0.75rem', color: 'var(--text-stardust)', fontWeight: 600}}>MAX SECONDS</label>
+                  <input
+                    type="number"
+                    min={3}
+                    max={55}
+                    step={1}
+                    value={segmentation.maxSeconds}
+                    onChange={e => setSegmentation({ maxSeconds: Math.max(3, parseInt(e.target.value, 10) || 3) })}
+                  />
+                </div>
+              </div>
+              <div>
+                <label style={{display: 'block', marginBottom: '8px', fontSize: '0.75rem', color: 'var(--text-stardust)', fontWeight: 600}}>LOOK-AHEAD</label>
+                <select
+                  value={pipelineDepth}
+                  onChange={e => setPipelineDepth(parseInt(e.target.value, 10))}
+                >
+                  <option value={1}>1 segment (lowest cost)</option>
+                  <option value={2}>2 segments</option>
+                  <option value={3}>3 segments</option>
+                  <option value={4}>4 segments (fewest gaps)</option>
+                </select>
+              </div>
+            </div>
+          </div>
+
+          <div className="sidebar-section">
+            <h4 className="sidebar-section-title">When Falling Behind</h4>
+            <div style={{display: 'flex', flexDirection: 'column', gap: '1rem'}}>
+              <select
+                value={lagPolicy.policy}
+                onChange={e => setLagPolicy({ policy: e.target.value as LagPolicy })}
+              >
+                {(Object.keys(LAG_POLICY_LABELS) as LagPolicy[]).map(policy => (
+                  <option key={policy} value={policy}>{LAG_POLICY_LABELS[policy]}</option>
+                ))}
+              </select>
+              {lagPolicy.policy !== 'speak-all' && (
+                <div style={{display: 'flex', gap: '12px'}}>
+                  <div style={{flex: 1}}>
+                    <label style={{display: 'block', marginBottom: '8px', fontSize: '0.75rem', color: 'var(--text-stardust)', fontWeight: 600}}>MAX LAG (S)</label>
+                    <input
+                      type="number"
+                      min={5}
+                      max={600}
+                      step={5}
+                      value={lagPolicy.maxLagSeconds}
+                      onChange={e => setLagPolicy({ maxLagSeconds: Math.max(5, parseInt(e.target.value, 10) || 5) })}
+                    />
+                  </div>
+                  {lagPolicy.policy === 'speed-up' && (
+                    <div style={{flex: 1}}>
+                      <label style={{display: 'block', marginBottom: '8px', fontSize: '0.75rem', color: 'var(--text-stardust)', fontWeight: 600}}>MAX SPEED</label>
+                      <select
+                        value={lagPolicy.maxPlaybackRate}
+                        onChange={e => setLagPolicy({ maxPlaybackRate: parseFloat(e.target.value) })}
+                      >
+                        {[1.1, 1.2, 1.3, 1.5].map(rate => (
+                          <option key={rate} value={rate}>{rate}x</option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          </div>
+
+          <div className="sidebar-section">
+            <h4 className="sidebar-section-title">Long Sessions</h4>
+            <fieldset disabled={connected} style={{border: 'none', padding: 0, margin: 0, display: 'flex', flexDirection: 'column', gap: '1rem'}}>
+              <label style={{display: 'flex', alignItems: 'center', gap: '8px', fontSize: '0.8rem', color: 'var(--text-nebula)', cursor: 'pointer'}}>
+                <input
+                  type="checkbox"
+                  checked={longSession.compression}
+                  onChange={e => setLongSession({ compression: e.target.checked })}
+                  style={{accentColor: 'var(--accent-orbit)'}}
+                />
+                Forget the oldest turns as the context fills
+              </label>
+              {longSession.compression && (
+                <div style={{display: 'flex', gap: '12px'}}>
+                  <div style={{flex: 1}}>
+                    <label style={{display: 'block', marginBottom: '8px', fontSize: '0.75rem', color: 'var(--text-stardust)', fontWeight: 600}}>COMPRESS AT</label>
+                    <input
+                      type="number"
+                      min={4000}
+                      max={128000}
+                      step={1000}
+                      value={longSession.triggerTokens}
+                      onChange={e => setLongSession({ triggerTokens: Math.max(4000, parseInt(e.target.value, 10) || 4000) })}
+                    />
+                  </div>
+                  <div style={{flex: 1}}>
+                    <label style={{display: 'block', marginBottom: '8px', fontSize: '0.75rem', color: 'var(--text-stardust)', fontWeight: 600}}>KEEP TOKENS</label>
+                    <input
+                      type="number"
+                      min={1000}
+                      max={longSession.triggerTokens}
+                      step={1000}
+                      value={longSession.targetTokens}
+                      onChange={e => setLongSession({ targetTokens: Math.max(1000, parseInt(e.target.value, 10) || 1000) })}
+                    />
+                  </div>
+                </div>
+              )}
+              <div>
+                <label style={{display: 'block', marginBottom: '8px', fontSize: '0.75rem', color: 'var(--text-stardust)', fontWeight: 600}}>FRESH SESSION EVERY</label>
+                <select
+                  value={longSession.rolloverMinutes}
+                  onChange={e => setLongSession({ rolloverMinutes: parseInt(e.target.value, 10) })}
+                >
+                  {ROLLOVER_OPTIONS.map(minutes => (
+                    <option key={minutes} value={minutes}>{minutes === 0 ? 'Never' : `${minutes} minutes`}</option>
+                  ))}
+                </select>
+              </div>
+            </fieldset>
+          </div>
+
+          <div className="sidebar-section">
+            <h4 className="sidebar-section-title">Translation Memory</h4>
+            <div style={{display: 'flex', flexDirection: 'column', gap: '1rem'}}>
+              <label style={{display: 'flex', alignItems: 'center', gap: '8px', fontSize: '0.8rem', color: 'var(--text-nebula)', cursor: 'pointer'}}>
+                <input
+                  type="checkbox"
+                  checked={translationMemory.enabled}
+                  onChange={e => setTranslationMemory({ enabled: e.target.checked })}
+                  style={{accentColor: 'var(--accent-orbit)'}}
+                />
+                Replay repeated lines from cache
+              </label>
+              <div style={{display: 'flex', gap: '12px'}}>
+                <div style={{flex: 1}}>
+                  <label style={{display: 'block', marginBottom: '8px', fontSize: '0.75rem', color: 'var(--text-stardust)', fontWeight: 600}}>MAX LINES</label>
+                  <input
+                    type="number"
+                    min={10}
+                    max={10000}
+                    step={10}
+                    value={translationMemory.maxEntries}
+                    onChange={e => setTranslationMemory({ maxEntries: Math.max(10, parseInt(e.target.value, 10) || 10) })}
+                  />
+                </div>
+                <div style={{flex: 1}}>
+                  <label style={{display: 'block', marginBottom: '8px', fontSize: '0.75rem', color: 'var(--text-stardust)', fontWeight: 600}}>MAX MB</label>
+                  <input
+                    type="number"
+                    min={1}
+                    max={1024}
+                    step={1}
+                    value={translationMemory.maxMegabytes}
+                    onChange={e => setTranslationMemory({ maxMegabytes: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                  />
+                </div>
+              </div>
+              <div style={{display: 'flex', alignItems: 'center', justifyContent: 'space-between', fontSize: '0.8rem', color: 'var(--text-stardust)'}}>
+                <span>
+                  {memoryUsage.entries} lines · {(memoryUsage.bytes / (1024 * 1024)).toFixed(1)} MB
+                </span>
+                <button
+                  type="button"
+                  onClick={handleClearMemory}
+                  disabled={memoryUsage.entries === 0}
+                  title="Delete all cached translations"
+                  style={{display: 'flex', alignItems: 'center', gap: '4px', color: 'var(--text-stardust)', fontSize: '0.8rem'}}
+                >
+                  <span className="material-symbols-outlined" style={{fontSize: '16px'}}>delete_sweep</span>
+                  Clear cache
+                </button>
+              </div>
+            </div>
+          </div>
+
+          <div className="sidebar-section">
+            <h4 className="sidebar-section-title">Speakers</h4>
+            <div style={{display: 'flex', flexDirection: 'column', gap: '1rem'}}>
+              <div>
+                <label style={{display: 'block', marginBottom: '8px', fontSize: '0.75rem', color: 'var(--text-stardust)', fontWeight: 600}}>SPEAKER TAGS</label>
+                <select
+                  value={speakerTags.mode}
+                  onChange={e => setSpeakerTags({ mode: e.target.value as SpeakerTagMode })}
+                >
+                  <option value="prefix">Name prefix (Name: text)</option>
+                  <option value="regex">Custom pattern</option>
+                  <option value="json">JSON lines</option>
+                </select>
+              </div>
+
+              {speakerTags.mode === 'regex' && (
+                <div>
+                  <label style={{display: 'block', marginBottom: '8px', fontSize: '0.75rem', color: 'var(--text-stardust)', fontWeight: 600}}>PATTERN</label>
+                  <input
+                    type="text"
+                    value={speakerTags.pattern}
+                    placeholder="(?<speaker>...)(?<text>...)"
+                    onChange={e => setSpeakerTags({ pattern: e.target.value })}
+                    style={{fontFamily: 'monospace'}}
+                  />
+                </div>
+              )}
+
+              {speakerTags.mode === 'json' && (
+                <div style={{display: 'flex', gap: '12px'}}>
+                  <div style={{flex: 1}}>
+                    <label style={{display: 'block', marginBottom: '8px', fontSize: '0.75rem', color: 'var(--text-stardust)', fontWeight: 600}}>SPEAKER FIELD</label>
+                    <input
+                      type="text"
+                      value={speakerTags.speakerField}
+                      onChange={e => setSpeakerTags({ speakerField: e.target.value.trim() })}
+                    />
+                  </div>
+                  <div style={{flex: 1}}>
+                    <label style={{display: 'block', marginBottom: '8px', fontSize: '0.75rem', color: 'var(--text-stardust)', fontWeight: 600}}>TEXT FIELD</label>
+                    <input
+                      type="text"
+                      value={speakerTags.textField}
+                      onChange={e => setSpeakerTags({ textField: e.target.value.trim() })}
+                    />
+                  </div>
+                </div>
+              )}
+
+              <label style={{display: 'flex', alignItems: 'center', gap: '8px', fontSize: '0.8rem', color: 'var(--text-nebula)', cursor: 'pointer'}}>
+                <input
+                  type="checkbox"
+                  checked={speakerTags.autoRegister}
+                  onChange={e => setSpeakerTags({ autoRegister: e.target.checked })}
+                  style={{accentColor: 'var(--accent-orbit)'}}
+                />
+                Add unknown speakers automatically (up to {MAX_AUTO_SPEAKERS}, each with its own Live session)
+              </label>
+
+              <div style={{display: 'flex', flexDirection: 'column', gap: '8px'}}>
+                {speakers.map(speaker => (
+                  <div key={speaker.id} style={{display: 'flex', flexDirection: 'column', gap: '8px', background: 'var(--bg-overlay)', padding: '12px', borderRadius: '12px', borderLeft: `4px solid ${speaker.color}`}}>
+                    <div style={{display: 'flex', alignItems: 'center', gap: '8px'}}>
+                      <input
+                        type="text"
+                        value={speaker.name}
+                        onChange={e => updateSpeaker(speaker.id, { name: e.target.value })}
+                        aria-label="Speaker name"
+                      />
+                      <button
+                        type="button"
+                        onClick={() => removeSpeaker(speaker.id)}
+                        title={`Remove ${speaker.name}`}
+                        style={{color: 'var(--text-dim)', display: 'flex'}}
+                      >
+                        <span className="material-symbols-outlined" style={{fontSize: '18px'}}>delete</span>
+                      </button>
+                    </div>
+                    <div style={{display: 'flex', gap: '8px'}}>
+                      <select
+                        value={speaker.voice}
+                        onChange={e => updateSpeaker(speaker.id, { voice: e.target.value })}
+                        aria-label="Speaker voice"
+                      >
+                        {AVAILABLE_VOICES.map(v => (
+                          <option key={v} value={v}>{v}</option>
+                        ))}
+                      </select>
+                      <select
+                        value={speaker.style}
+                        onChange={e => updateSpeaker(speaker.id, { style: e.target.value as VoiceStyle | 'inherit' })}
+                        aria-label="Speaker style"
+                      >
+                        <option value="inherit">Global style</option>
+                        <option value="conversational">Conversational</option>
+                        <option value="formal">Formal</option>
+                        <option value="enthusiastic">Enthusiastic</option>
+                        <option value="natural">Natural</option>
+                        <option value="breathy">Breathy</option>
+                        <option value="dramatic">Dramatic</option>
+                      </select>
+                    </div>
+                  </div>
+                ))}
+                <button
+                  type="button"
+                  onClick={() => addSpeaker()}
+                  style={{display: 'flex', alignItems: 'center', justifyContent: 'center', gap: '6px', padding: '8px', borderRadius: '12px', border: '1px dashed var(--text-dim)', color: 'var(--text-stardust)', fontSize: '0.8rem'}}
+                >
+                  <span className="material-symbols-outlined" style={{fontSize: '16px'}}>person_add</span>
+                  Add speaker
+                </button>
+              </div>
+            </div>
+          </div>
+
+          <div className="sidebar-section">
+            <h4 className="sidebar-section-title">Glossary</h4>
+            <div style={{display: 'flex', flexDirection: 'column', gap: '8px'}}>
+              {glossary.map(entry => (
+                <div key={entry.id} style={{display: 'flex', flexDirection: 'column', gap: '8px', background: 'var(--bg-overlay)', padding: '12px', borderRadius: '12px'}}>
+                  <div style={{display: 'flex', alignItems: 'center', gap: '8px'}}>
+                    <input
+                      type="text"
+                      value={entry.term}
+                      placeholder="Term"
+                      onChange={e => updateGlossaryEntry(entry.id, { term: e.target.value })}
+                      aria-label="Glossary term"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => removeGlossaryEntry(entry.id)}
+                      title={`Remove ${entry.term || 'term'}`}
+                      style={{color: 'var(--text-dim)', display: 'flex'}}
+                    >
+                      <span className="material-symbols-outlined" style={{fontSize: '18px'}}>delete</span>
+                    </button>
+                  </div>
+                  {targetLanguages({ language, additionalLanguages }).map(lang => (
+                    <input
+                      key={lang}
+                      type="text"
+                      value={entry.translations[lang] || ''}
+                      placeholder={`Translation in ${lang || 'target language'}`}
+                      disabled={entry.doNotTranslate || !lang}
+                      onChange={e => updateGlossaryEntry(entry.id, {
+                        translations: { ...entry.translations, [lang]: e.target.value },
+                      })}
+                      aria-label={`Preferred translation in ${lang}`}
+                    />
+                  ))}
+                  <input
+                    type="text"
+                    value={entry.pronunciation}
+                    placeholder="Pronunciation hint (optional)"
+                    onChange={e => updateGlossaryEntry(entry.id, { pronunciation: e.target.value })}
+                    aria-label="Pronunciation hint"
+                  />
+                  <label style={{display: 'flex', alignItems: 'center', gap: '8px', fontSize: '0.8rem', color: 'var(--text-nebula)', cursor: 'pointer'}}>
+                    <input
+                      type="checkbox"
+                      checked={entry.doNotTranslate}
+                      onChange={e => updateGlossaryEntry(entry.id, { doNotTranslate: e.target.checked })}
+                      style={{accentColor: 'var(--accent-orbit)'}}
+                    />
+                    Do not translate
+                  </label>
+                </div>
+              ))}
+              <button
+                type="button"
+                onClick={() => addGlossaryEntry(createGlossaryEntry())}
+                style={{display: 'flex', alignItems: 'center', justifyContent: 'center', gap: '6px', padding: '8px', borderRadius: '12px', border: '1px dashed var(--text-dim)', color: 'var(--text-stardust)', fontSize: '0.8rem'}}
+              >
+                <span className="material-symbols-outlined" style={{fontSize: '16px'}}>add</span>
+                Add term
+              </button>
+              {connected && glossary.length > 0 && (
+                <div style={{fontSize: '0.7rem', color: 'var(--text-dim)'}}>
+                  Glossary changes apply the next time streaming starts.
+                </div>
+              )}
+            </div>
+          </div>
+
+          <div className="sidebar-section">
+            <h4 className="sidebar-section-title">Tool Template</h4>
+            <fieldset disabled={connected} style={{border: 'none', padding: 0, margin: 0, display: 'flex', flexDirection: 'column', gap: '1rem'}}>
+              <div style={{display: 'flex', alignItems: 'center', gap: '8px'}}>
+                <select
+                  value={template}
+                  onChange={e => setTemplate(e.target.value as Template)}
+                >
+                  <optgroup label="Presets">
+                    {PRESET_TEMPLATES.map(t => (
+                      <option key={t.id} value={t.id}>{t.name}</option>
+                    ))}
+                  </optgroup>
+                  {savedTemplates.length > 0 && (
+                    <optgroup label="Saved">
+                      {savedTemplates.map(t => (
+                        <option key={t.id} value={t.id}>{t.name}</option>
+                      ))}
+                    </optgroup>
+                  )}
+                </select>
+                {isUserTemplate(template) && (
+                  <button
+                    type="button"
+                    onClick={() => window.confirm(`Delete the template "${currentTemplate?.name}"?`) && removeTemplate(template)}
+                    title="Delete this template"
+                    style={{color: 'var(--text-dim)', display: 'flex'}}
+                  >
+                    <span className="material-symbols-outlined" style={{fontSize: '18px'}}>delete</span>
+                  </button>
+                )}
+              </div>
+              {currentTemplate?.description && (
+                <div style={{fontSize: '0.75rem', color: 'var(--text-stardust)'}}>{currentTemplate.description}</div>
+              )}
+              <div style={{display: 'flex', gap: '8px', fontSize: '0.8rem'}}>
+                <button
+                  type="button"
+                  onClick={handleSaveTemplate}
+                  title="Save the current tools and system prompt as a template"
+                  style={{display: 'flex', alignItems: 'center', gap: '4px', color: 'var(--text-stardust)'}}
+                >
+                  <span className="material-symbols-outlined" style={{fontSize: '16px'}}>bookmark_add</span>
+                  Save as
+                </button>
+                <button
+                  type="button"
+                  onClick={handleExportTemplate}
+                  title="Download this template as JSON"
+                  style={{display: 'flex', alignItems: 'center', gap: '4px', color: 'var(--text-stardust)'}}
+                >
+                  <span className="material-symbols-outlined" style={{fontSize: '16px'}}>download</span>
+                  Export
+                </button>
+                <label
+                  title="Load templates from a JSON file"
+                  style={{display: 'flex', alignItems: 'center', gap: '4px', color: 'var(--text-stardust)', cursor: 'pointer'}}
+                >
+                  <span className="material-symbols-outlined" style={{fontSize: '16px'}}>upload</span>
+                  Import
+                  <input type="file" accept=".json,application/json" onChange={handleImportTemplates} style={{display: 'none'}} />
+                </label>
+              </div>
+              {templateError && (
+                <div style={{fontSize: '0.75rem', color: 'var(--accent-signal)'}}>{templateError}</div>
+              )}
+            </fieldset>
+          </div>
+
+          <div className="sidebar-section">
+            <h4 className="sidebar-section-title">Tools</h4>
+            <div style={{display: 'flex', flexDirection: 'column', gap: '8px'}}>
+              {tools.map(tool => (
+                <div key={tool.name} className={c('tool-row', { disabled: !tool.isEnabled })}>
+                  <input
+                    type="checkbox"
+                    checked={tool.isEnabled}
+                    onChange={() => toggleTool(tool.name)}
+                    title={tool.isEnabled ? 'Disable' : 'Enable'}
+                    style={{accentColor: 'var(--accent-orbit)'}}
+                  />
+                  <div className="tool-row-name" title={tool.description || tool.name}>
+                    {tool.name}
+                    <span>{TOOL_EXECUTOR_LABELS[tool.executor?.kind || 'mock']}</span>
+                  </div>
+                  <button type="button" onClick={() => setTestingTool(tool)} title="Test this tool">
+                    <span className="material-symbols-outlined">play_circle</span>
+                  </button>
+                  <button type="button" onClick={() => setEditingTool(tool)} title="Edit">
+                    <span className="material-symbols-outlined">edit</span>
+                  </button>
+                  <button type="button" onClick={() => duplicateTool(tool.name)} title="Duplicate">
+                    <span className="material-symbols-outlined">content_copy</span>
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => window.confirm(`Delete the tool "${tool.name}"?`) && removeTool(tool.name)}
+                    title="Delete"
+                  >
+                    <span className="material-symbols-outlined">delete</span>
+                  </button>
+                </div>
+              ))}
+              <button
+                type="button"
+                onClick={addTool}
+                style={{display: 'flex', alignItems: 'center', justifyContent: 'center', gap: '6px', padding: '8px', borderRadius: '12px', border: '1px dashed var(--text-dim)', color: 'var(--text-stardust)', fontSize: '0.8rem'}}
+              >
+                <span className="material-symbols-outlined" style={{fontSize: '16px'}}>add</span>
+                Add tool
+              </button>
+              <button
+                type="button"
+                onClick={() => setImportingOpenApi(true)}
+                title="Create tools from the operations of an OpenAPI document"
+                style={{display: 'flex', alignItems: 'center', justifyContent: 'center', gap: '6px', padding: '8px', borderRadius: '12px', border: '1px dashed var(--text-dim)', color: 'var(--text-stardust)', fontSize: '0.8rem'}}
+              >
+                <span className="material-symbols-outlined" style={{fontSize: '16px'}}>api</span>
+                Import OpenAPI
+              </button>
+              {connected && tools.length > 0 && (
+                <div style={{fontSize: '0.7rem', color: 'var(--text-dim)'}}>
+                  Declarations apply the next time streaming starts; executors apply right away.
+                </div>
+              )}
+            </div>
+          </div>
+
           <div className="sidebar-section">
             <h4 className="sidebar-section-title">Background Audio</h4>
             <div style={{display: 'flex', flexDirection: 'column', gap: '1rem', background: 'var(--bg-overlay)', padding: '16px', borderRadius: '16px'}}>
@@ -209,15 +1087,63 @@ export default function Sidebar() {
             </div>
           </div>
           
+          <div className="sidebar-section">
+            <h4 className="sidebar-section-title">Live API</h4>
+            <div style={{display: 'flex', flexDirection: 'column', gap: '1rem'}}>
+              <select
+                value={mockScenario ?? ''}
+                onChange={e => setMockScenario((e.target.value || null) as MockScenarioId | null)}
+                disabled={connected}
+              >
+                <option value="">Gemini Live API</option>
+                {(Object.keys(MOCK_SCENARIOS) as MockScenarioId[]).map(id => (
+                  <option key={id} value={id}>Offline mock: {MOCK_SCENARIOS[id].label}</option>
+                ))}
+              </select>
+              {mockScenario && (
+                <div style={{fontSize: '0.7rem', color: 'var(--text-dim)'}}>
+                  {MOCK_SCENARIOS[mockScenario].description} Sessions are answered in the browser with a tone and the
+                  source text; nothing is sent to the Live API.
+                </div>
+              )}
+            </div>
+          </div>
+
           <div className="sidebar-section">
             <div style={{padding: '12px', background: 'rgba(37, 99, 235, 0.1)', borderRadius: '12px', border: '1px solid var(--accent-orbit)', fontSize: '11px', color: 'var(--text-nebula)'}}>
               <strong style={{display:'block', marginBottom:'4px', color:'var(--accent-orbit)'}}>Eburon Active</strong>
-              Tools disabled. Polling interval: 5s.
+              {tools.some(t => t.isEnabled)
+                ? `${tools.filter(t => t.isEnabled).length} tool(s) enabled (${currentTemplate?.name || 'custom'}).`
+                : 'Tools disabled.'} Source: {sourceLabel} ({sourceStatus}).
             </div>
           </div>
 
         </div>
       </aside>
+      {editingTool && (
+        <ToolEditorModal
+          tool={editingTool}
+          otherNames={tools.filter(t => t.name !== editingTool.name).map(t => t.name)}
+          onClose={() => setEditingTool(null)}
+          onSave={updated => {
+            updateTool(editingTool.name, updated);
+            setEditingTool(null);
+          }}
+        />
+      )}
+      {testingTool && (
+        <ToolTestModal tool={testingTool} onClose={() => setTestingTool(null)} />
+      )}
+      {importingOpenApi && (
+        <OpenApiImportModal
+          existingNames={tools.map(t => t.name)}
+          onClose={() => setImportingOpenApi(false)}
+          onImport={imported => {
+            addTools(imported);
+            setImportingOpenApi(false);
+          }}
+        />
+      )}
     </>
   );
 }
\ No newline at end of file
@@ -5,56 +5,153 @@
 import { useEffect, useState } from 'react';
 import { FunctionCall } from '@/lib/state';
 import Modal from './Modal';
-import { FunctionResponseScheduling } from '@google/genai';
+import { Behavior, FunctionResponseScheduling } from '@google/genai';
+import {
+  DEFAULT_TOOL_EXECUTOR,
+  DEFAULT_TOOL_TIMEOUT_MS,
+  defaultExecutor,
+  formatHeaders,
+  HTTP_TOOL_METHODS,
+  HttpToolMethod,
+  localToolNames,
+  parseHeaders,
+  TOOL_EXECUTOR_LABELS,
+  ToolExecutor,
+  ToolExecutorKind,
+} from '@/lib/tool-executors';
+import {
+  emptyPropertyRow,
+  PropertyRow,
+  rowsToSchema,
+  SCHEMA_TYPES,
+  SchemaIssue,
+  SchemaType,
+  schemaToRows,
+  validateFunctionName,
+  validateParameters,
+} from '@/lib/tool-schema';
 
 type ToolEditorModalProps = {
   tool: FunctionCall;
+  // Names of the other tools, which the tool may not take
+  otherNames?: string[];
   onClose: () => void;
   onSave: (updatedTool: FunctionCall) => void;
 };
 
+type ParametersMode = 'form' | 'json';
+
 export default function ToolEditorModal({
   tool,
+  otherNames = [],
   onClose,
   onSave,
 }: ToolEditorModalProps) {
   const [name, setName] = useState('');
+  const [nameError, setNameError] = useState<string | null>(null);
+  const [mode, setMode] = useState<ParametersMode>('json');
+  const [rows, setRows] = useState<PropertyRow[]>([]);
+  const [schemaIssues, setSchemaIssues] = useState<SchemaIssue[]>([]);
   const [description, setDescription] = useState('');
   const [parametersStr, setParametersStr] = useState('');
   const [jsonError, setJsonError] = useState<string | null>(null);
+  const [behavior, setBehavior] = useState<Behavior>(Behavior.BLOCKING);
   const [scheduling, setScheduling] = useState<FunctionResponseScheduling>(
     FunctionResponseScheduling.INTERRUPT,
   );
+  const [executor, setExecutor] = useState<ToolExecutor>(DEFAULT_TOOL_EXECUTOR);
+  const [headersStr, setHeadersStr] = useState('');
+  const [timeoutMs, setTimeoutMs] = useState(DEFAULT_TOOL_TIMEOUT_MS);
 
   useEffect(() => {
     if (tool) {
       setName(tool.name);
       setDescription(tool.description || '');
       setParametersStr(JSON.stringify(tool.parameters || {}, null, 2));
+      const formRows = schemaToRows(tool.parameters || {});
+      setRows(formRows || []);
+      setMode(formRows ? 'form' : 'json');
+      setNameError(null);
+      setSchemaIssues([]);
+      setBehavior(tool.behavior || Behavior.BLOCKING);
       setScheduling(tool.scheduling || FunctionResponseScheduling.INTERRUPT);
+      const toolExecutor = tool.executor || DEFAULT_TOOL_EXECUTOR;
+      setExecutor(toolExecutor);
+      setHeadersStr(toolExecutor.kind === 'http' ? formatHeaders(toolExecutor.headers) : '');
+      setTimeoutMs(tool.timeoutMs || DEFAULT_TOOL_TIMEOUT_MS);
       setJsonError(null);
     }
   }, [tool]);
 
-  const handleSave = () => {
-    let parsedParameters;
+  const switchMode = (next: ParametersMode) => {
+    if (next === mode) return;
+    if (next === 'json') {
+      setParametersStr(JSON.stringify(rowsToSchema(rows), null, 2));
+      setMode('json');
+      return;
+    }
+    let parsed;
     try {
-      parsedParameters = JSON.parse(parametersStr);
-      setJsonError(null);
-    } catch (error) {
-      setJsonError('Invalid JSON format for parameters.');
+      parsed = JSON.parse(parametersStr);
+    } catch {
+      setJsonError('Fix the JSON before switching to the form.');
       return;
     }
+    const formRows = schemaToRows(parsed);
+    if (!formRows) {
+      setJsonError('This schema uses nested objects or extra fields the form cannot show; edit it as JSON.');
+      return;
+    }
+    setJsonError(null);
+    setRows(formRows);
+    setMode('form');
+  };
+
+  const updateRow = (index: number, update: Partial<PropertyRow>) =>
+    setRows(current => current.map((row, i) => (i === index ? { ...row, ...update } : row)));
+
+  const handleSave = () => {
+    let parsedParameters;
+    if (mode === 'form') {
+      parsedParameters = rowsToSchema(rows);
+    } else {
+      try {
+        parsedParameters = JSON.parse(parametersStr);
+        setJsonError(null);
+      } catch (error) {
+        setJsonError('Invalid JSON format for parameters.');
+        return;
+      }
+    }
+
+    const nameProblem = validateFunctionName(name)
+      ?? (otherNames.includes(name) ? `Another tool is already named "${name}".` : null);
+    const issues = validateParameters(parsedParameters);
+    if (mode === 'form') {
+      const names = rows.map(row => row.name);
+      names
+        .filter((n, i) => names.indexOf(n) !== i)
+        .forEach(n => issues.push({ path: `parameters.properties.${n}`, message: 'Used by more than one property.' }));
+    }
+    setNameError(nameProblem);
+    setSchemaIssues(issues);
+    if (nameProblem || issues.length > 0) return;
 
     onSave({
       ...tool,
       name,
       description,
       parameters: parsedParameters,
+      behavior,
       scheduling,
+      executor: executor.kind === 'http' ? { ...executor, headers: parseHeaders(headersStr) } : executor,
+      timeoutMs,
     });
   };
 
+  const updateExecutor = (update: Partial<ToolExecutor>) =>
+    setExecutor(current => ({ ...current, ...update } as ToolExecutor));
+
   return (
     <Modal onClose={onClose}>
       <div className="tool-editor-modal">
@@ -67,6 +164,7 @@ export default function ToolEditorModal({
             value={name}
             onChange={e => setName(e.target.value)}
           />
+          {nameError && <p className="json-error">{nameError}</p>}
         </div>
         <div className="form-field">
           <label htmlFor="tool-description">Description</label>
@@ -78,36 +176,238 @@ export default function ToolEditorModal({
           />
         </div>
         <div className="form-field">
-          <label htmlFor="tool-scheduling">Scheduling Behavior</label>
+          <label htmlFor="tool-behavior">Behavior</label>
           <select
-            id="tool-scheduling"
-            value={scheduling}
-            onChange={e =>
-              setScheduling(e.target.value as FunctionResponseScheduling)
-            }
+            id="tool-behavior"
+            value={behavior}
+            onChange={e => setBehavior(e.target.value as Behavior)}
           >
-            <option value={FunctionResponseScheduling.INTERRUPT}>
-              Interrupt
-            </option>
-            <option value={FunctionResponseScheduling.WHEN_IDLE}>
-              When Idle
-            </option>
-            <option value={FunctionResponseScheduling.SILENT}>Silent</option>
+            <option value={Behavior.BLOCKING}>Blocking</option>
+            <option value={Behavior.NON_BLOCKING}>Non-blocking</option>
           </select>
           <p className="scheduling-description">
-            Determines when the model's response is spoken. 'Interrupt' speaks
-            immediately.
+            'Blocking' makes the model wait for the result; 'Non-blocking' lets
+            it keep talking while the tool runs.
           </p>
         </div>
+        {behavior === Behavior.NON_BLOCKING && (
+          <div className="form-field">
+            <label htmlFor="tool-scheduling">Scheduling Behavior</label>
+            <select
+              id="tool-scheduling"
+              value={scheduling}
+              onChange={e =>
+                setScheduling(e.target.value as FunctionResponseScheduling)
+              }
+            >
+              <option value={FunctionResponseScheduling.INTERRUPT}>
+                Interrupt
+              </option>
+              <option value={FunctionResponseScheduling.WHEN_IDLE}>
+                When Idle
+              </option>
+              <option value={FunctionResponseScheduling.SILENT}>Silent</option>
+            </select>
+            <p className="scheduling-description">
+              Determines when the model's response is spoken. 'Interrupt' speaks
+              immediately.
+            </p>
+          </div>
+        )}
         <div className="form-field">
-          <label htmlFor="tool-parameters">Parameters (JSON Schema)</label>
-          <textarea
-            id="tool-parameters"
-            className="json-editor"
-            value={parametersStr}
-            onChange={e => setParametersStr(e.target.value)}
+          <label htmlFor="tool-executor">Executor</label>
+          <select
+            id="tool-executor"
+            value={executor.kind}
+            onChange={e => setExecutor(defaultExecutor(e.target.value as ToolExecutorKind))}
+          >
+            {(Object.keys(TOOL_EXECUTOR_LABELS) as ToolExecutorKind[]).map(kind => (
+              <option key={kind} value={kind}>{TOOL_EXECUTOR_LABELS[kind]}</option>
+            ))}
+          </select>
+        </div>
+        {executor.kind === 'mock' && (
+          <>
+            <div className="form-field">
+              <label htmlFor="tool-mock-response">Response (JSON or text)</label>
+              <textarea
+                id="tool-mock-response"
+                className="json-editor"
+                value={executor.response}
+                onChange={e => updateExecutor({ response: e.target.value })}
+                rows={4}
+              />
+            </div>
+            <div className="form-field">
+              <label htmlFor="tool-mock-delay">Delay (ms)</label>
+              <input
+                id="tool-mock-delay"
+                type="number"
+                min={0}
+                step={100}
+                value={executor.delayMs}
+                onChange={e => updateExecutor({ delayMs: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+              />
+            </div>
+          </>
+        )}
+        {executor.kind === 'local' && (
+          <div className="form-field">
+            <label htmlFor="tool-local-handler">Function</label>
+            <select
+              id="tool-local-handler"
+              value={executor.handler}
+              onChange={e => updateExecutor({ handler: e.target.value })}
+            >
+              {localToolNames().map(handler => (
+                <option key={handler} value={handler}>{handler}</option>
+              ))}
+            </select>
+          </div>
+        )}
+        {executor.kind === 'http' && (
+          <>
+            <div className="form-field">
+              <label htmlFor="tool-http-url">Webhook URL</label>
+              <div style={{display: 'flex', gap: '8px'}}>
+                <select
+                  value={executor.method}
+                  onChange={e => updateExecutor({ method: e.target.value as HttpToolMethod })}
+                  style={{width: '110px'}}
+                >
+                  {HTTP_TOOL_METHODS.map(method => (
+                    <option key={method} value={method}>{method}</option>
+                  ))}
+                </select>
+                <input
+                  id="tool-http-url"
+                  type="url"
+                  placeholder="https://example.com/hooks/tool"
+                  value={executor.url}
+                  onChange={e => updateExecutor({ url: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="form-field">
+              <label htmlFor="tool-http-headers">Headers (one "Name: value" per line)</label>
+              <textarea
+                id="tool-http-headers"
+                value={headersStr}
+                onChange={e => setHeadersStr(e.target.value)}
+                rows={3}
+              />
+            </div>
+          </>
+        )}
+        <div className="form-field">
+          <label htmlFor="tool-timeout">Timeout (ms)</label>
+          <input
+            id="tool-timeout"
+            type="number"
+            min={500}
+            step={500}
+            value={timeoutMs}
+            onChange={e => setTimeoutMs(Math.max(500, parseInt(e.target.value, 10) || DEFAULT_TOOL_TIMEOUT_MS))}
           />
+        </div>
+        <div className="form-field">
+          <div className="parameters-header">
+            <label htmlFor="tool-parameters">Parameters</label>
+            <div className="segmented">
+              <button type="button" className={mode === 'form' ? 'active' : ''} onClick={() => switchMode('form')}>Form</button>
+              <button type="button" className={mode === 'json' ? 'active' : ''} onClick={() => switchMode('json')}>JSON</button>
+            </div>
+          </div>
+          {mode === 'json' ? (
+            <textarea
+              id="tool-parameters"
+              className="json-editor"
+              value={parametersStr}
+              onChange={e => setParametersStr(e.target.value)}
+            />
+          ) : (
+            <div className="property-rows">
+              {rows.map((row, i) => (
+                <div key={i} className="property-row">
+                  <div className="property-row-line">
+                    <input
+                      type="text"
+                      placeholder="name"
+                      value={row.name}
+                      onChange={e => updateRow(i, { name: e.target.value.trim() })}
+                      aria-label="Property name"
+                    />
+                    <select
+                      value={row.type}
+                      onChange={e => updateRow(i, { type: e.target.value as SchemaType })}
+                      aria-label="Property type"
+                    >
+                      {SCHEMA_TYPES.filter(t => t !== 'OBJECT').map(t => (
+                        <option key={t} value={t}>{t}</option>
+                      ))}
+                    </select>
+                    {row.type === 'ARRAY' && (
+                      <select
+                        value={row.itemType}
+                        onChange={e => updateRow(i, { itemType: e.target.value as SchemaType })}
+                        aria-label="Item type"
+                        title="Type of the items"
+                      >
+                        {SCHEMA_TYPES.filter(t => t !== 'OBJECT' && t !== 'ARRAY').map(t => (
+                          <option key={t} value={t}>of {t}</option>
+                        ))}
+                      </select>
+                    )}
+                    <label title="Required" className="property-required">
+                      <input
+                        type="checkbox"
+                        checked={row.required}
+                        onChange={e => updateRow(i, { required: e.target.checked })}
+                      />
+                      req.
+                    </label>
+                    <button
+                      type="button"
+                      onClick={() => setRows(current => current.filter((_, j) => j !== i))}
+                      title="Remove property"
+                    >
+                      <span className="material-symbols-outlined">delete</span>
+                    </button>
+                  </div>
+                  <input
+                    type="text"
+                    placeholder="Description"
+                    value={row.description}
+                    onChange={e => updateRow(i, { description: e.target.value })}
+                    aria-label="Property description"
+                  />
+                  {row.type === 'STRING' && (
+                    <input
+                      type="text"
+                      placeholder="Allowed values, comma separated (optional)"
+                      value={row.enumValues.join(', ')}
+                      onChange={e => updateRow(i, {
+                        enumValues: e.target.value.split(',').map(v => v.trimStart()),
+                      })}
+                      aria-label="Allowed values"
+                    />
+                  )}
+                </div>
+              ))}
+              <button type="button" className="add-property" onClick={() => setRows(current => [...current, emptyPropertyRow()])}>
+                <span className="material-symbols-outlined">add</span>
+                Add property
+              </button>
+            </div>
+          )}
           {jsonError && <p className="json-error">{jsonError}</p>}
+          {schemaIssues.length > 0 && (
+            <ul className="schema-issues">
+              {schemaIssues.map((issue, i) => (
+                <li key={i}><code>{issue.path}</code> {issue.message}</li>
+              ))}
+            </ul>
+          )}
         </div>
         <div className="modal-actions">
           <button onClick={onClose} className="cancel-button">
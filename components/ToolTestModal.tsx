@@ -0,0 +1,118 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { useEffect, useRef, useState } from 'react';
+import { FunctionCall } from '@/lib/state';
+import { functionDeclaration, invokeTool } from '@/lib/tool-runner';
+import { schemaProperties } from '@/lib/tool-schema';
+import Modal from './Modal';
+
+type ToolTestModalProps = {
+  tool: FunctionCall;
+  onClose: () => void;
+};
+
+// Arguments with an empty value of the right type for every parameter
+const sampleArgs = (parameters: unknown): Record<string, unknown> =>
+  Object.fromEntries(
+    schemaProperties(parameters).map(([name, schema]) => {
+      switch (String(schema.type || '').toUpperCase()) {
+        case 'NUMBER':
+        case 'INTEGER':
+          return [name, 0];
+        case 'BOOLEAN':
+          return [name, false];
+        case 'ARRAY':
+          return [name, []];
+        case 'OBJECT':
+          return [name, sampleArgs(schema)];
+        default:
+          return [name, Array.isArray(schema.enum) ? schema.enum[0] ?? '' : ''];
+      }
+    })
+  );
+
+export default function ToolTestModal({ tool, onClose }: ToolTestModalProps) {
+  const [argsStr, setArgsStr] = useState('');
+  const [result, setResult] = useState<string | null>(null);
+  const [jsonError, setJsonError] = useState<string | null>(null);
+  const [running, setRunning] = useState(false);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    setArgsStr(JSON.stringify(sampleArgs(tool.parameters), null, 2));
+    setResult(null);
+    setJsonError(null);
+  }, [tool]);
+
+  // A test still running when the modal closes is abandoned
+  useEffect(() => () => controllerRef.current?.abort('closed'), []);
+
+  const handleRun = async () => {
+    let args;
+    try {
+      args = JSON.parse(argsStr);
+      setJsonError(null);
+    } catch {
+      setJsonError('Invalid JSON format for arguments.');
+      return;
+    }
+
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setRunning(true);
+    setResult(null);
+    const startedAt = Date.now();
+    try {
+      const response = await invokeTool(tool, args, controller);
+      setResult(`// ${Date.now() - startedAt}ms\n${JSON.stringify(response, null, 2)}`);
+    } catch {
+      // Closed while running
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setRunning(false);
+      }
+    }
+  };
+
+  return (
+    <Modal onClose={onClose}>
+      <div className="tool-editor-modal">
+        <h2>Test {tool.name}</h2>
+        <div className="form-field">
+          <label>Declaration sent to the model</label>
+          <pre className="json-editor json-preview">
+            {JSON.stringify({ functionDeclarations: [functionDeclaration(tool)] }, null, 2)}
+          </pre>
+        </div>
+        <div className="form-field">
+          <label htmlFor="tool-test-args">Arguments</label>
+          <textarea
+            id="tool-test-args"
+            className="json-editor"
+            value={argsStr}
+            onChange={e => setArgsStr(e.target.value)}
+            rows={6}
+          />
+          {jsonError && <p className="json-error">{jsonError}</p>}
+        </div>
+        {result && (
+          <div className="form-field">
+            <label>Response sent to the model</label>
+            <pre className="json-editor json-preview">{result}</pre>
+          </div>
+        )}
+        <div className="modal-actions">
+          <button onClick={onClose} className="cancel-button">
+            Close
+          </button>
+          <button onClick={handleRun} className="save-button" disabled={running}>
+            {running ? 'Running…' : 'Run'}
+          </button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
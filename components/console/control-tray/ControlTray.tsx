@@ -4,11 +4,26 @@
 */
 import cn from 'classnames';
 
-import { memo, ReactNode, useEffect, useRef } from 'react';
+import { CSSProperties, memo, ReactNode, useEffect, useRef, useState } from 'react';
 import { useLiveAPIContext } from '../../../contexts/LiveAPIContext';
 import AudioVisualizer from '@/components/visualizer/AudioVisualizer';
-import { useSettings } from '@/lib/state';
+import { ReconnectOutcome, useBridgeStatus, useLiveInput, useSettings, useSpeakers } from '@/lib/state';
 import { SUPPORTED_LANGUAGES } from '@/lib/constants';
+import { DEFAULT_SPEAKER_ID } from '@/lib/speakers';
+import { HEALTH_LABELS, SpeakerHealth } from '@/lib/speaker-health';
+import { isAudioInput } from '@/lib/live-input';
+
+const formatSeconds = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(Math.floor(seconds % 60)).padStart(2, '0')}`;
+
+// How long the outcome of a reconnect stays visible
+const RECONNECT_NOTICE_MS = 5000;
+
+const RECONNECT_NOTICES: Record<ReconnectOutcome, { icon: string; label: string; title: string }> = {
+  resumed: { icon: 'cloud_done', label: 'Resumed', title: 'The session was resumed where it left off' },
+  fresh: { icon: 'cloud_sync', label: 'New session', title: 'The session could not be resumed; a new one was started' },
+  failed: { icon: 'cloud_off', label: 'Lost', title: 'A session could not be reopened' },
+};
 
 export type ControlTrayProps = {
   children?: ReactNode;
@@ -16,9 +31,31 @@ export type ControlTrayProps = {
 
 function ControlTray({ children }: ControlTrayProps) {
   const connectButtonRef = useRef<HTMLButtonElement>(null);
-  const { language, setLanguage } = useSettings();
+  const { language, setLanguage, lagPolicy, inputMode } = useSettings();
+  const liveInput = useLiveInput();
+  const { lagSeconds, queueLength, playbackRate, reconnecting, lastReconnect } = useBridgeStatus();
+  const isBehind = lagSeconds > lagPolicy.maxLagSeconds;
 
-  const { connected, connect, disconnect, isVolumeEnabled, setIsVolumeEnabled, volume } = useLiveAPIContext();
+  const [showReconnectNotice, setShowReconnectNotice] = useState(false);
+  useEffect(() => {
+    if (!lastReconnect) return;
+    setShowReconnectNotice(true);
+    const timeout = setTimeout(() => setShowReconnectNotice(false), RECONNECT_NOTICE_MS);
+    return () => clearTimeout(timeout);
+  }, [lastReconnect]);
+  const reconnectNotice = lastReconnect && showReconnectNotice ? RECONNECT_NOTICES[lastReconnect.outcome] : null;
+
+  const { connected, connect, disconnect, isVolumeEnabled, setIsVolumeEnabled, volume, speakerHealth } = useLiveAPIContext();
+  const speakers = useSpeakers(state => state.speakers);
+
+  const healthChips = (Object.entries(speakerHealth) as [string, SpeakerHealth][])
+    .filter(([, health]) => health.state !== 'idle')
+    .map(([key, health]) => {
+      const name = health.speaker === DEFAULT_SPEAKER_ID
+        ? 'Default'
+        : speakers.find(s => s.id === health.speaker)?.name || health.speaker;
+      return { key, health, label: health.language === language ? name : `${name} · ${health.language}` };
+    });
 
   useEffect(() => {
     if (!connected && connectButtonRef.current) {
@@ -34,6 +71,21 @@ function ControlTray({ children }: ControlTrayProps) {
 
   const isPlayDisabled = !connected && !language;
 
+  const inputIcon = liveInput.muted ? 'mic_off' : inputMode === 'audio-file' ? 'audio_file' : 'mic';
+  const inputNotice = liveInput.status === 'error'
+    ? { icon: 'error', label: 'Input failed', title: liveInput.error || 'Audio input could not start' }
+    : inputMode === 'audio-file' && !liveInput.file
+    ? { icon: 'audio_file', label: 'No file', title: 'Choose an audio file in the settings' }
+    : inputMode === 'audio-file' && liveInput.progress
+    ? {
+        icon: liveInput.status === 'ended' ? 'check' : 'play_arrow',
+        label: `${formatSeconds(liveInput.progress.seconds)} / ${formatSeconds(liveInput.progress.duration)}`,
+        title: liveInput.file?.name || '',
+      }
+    : liveInput.status === 'live' && !liveInput.muted
+    ? { icon: 'hearing', label: 'Listening', title: 'Speech is streamed to the model' }
+    : null;
+
   return (
     <section className="control-tray">
       <nav className={cn('actions-nav')}>
@@ -47,6 +99,19 @@ function ControlTray({ children }: ControlTrayProps) {
           </span>
         </button>
 
+        {isAudioInput(inputMode) && (
+          <button
+            className={cn('action-button input-button', { muted: liveInput.muted, active: connected && liveInput.status === 'live' })}
+            onClick={() => liveInput.setMuted(!liveInput.muted)}
+            title={liveInput.muted ? 'Resume sending audio' : 'Pause sending audio'}
+            style={{ '--volume': `${Math.min(liveInput.volume * 200, 8)}px` } as CSSProperties}
+          >
+            <span className="material-symbols-outlined filled">
+              {inputIcon}
+            </span>
+          </button>
+        )}
+
         <div className="language-selector-container">
           <select
             className="tray-select"
@@ -70,6 +135,51 @@ function ControlTray({ children }: ControlTrayProps) {
         <span className="text-indicator">
             {connected ? 'Live' : language ? 'Ready' : ''}
         </span>
+        {connected && isAudioInput(inputMode) && inputNotice && (
+          <span className={cn('lag-indicator', { behind: liveInput.status === 'error' })} title={inputNotice.title}>
+            <span className="material-symbols-outlined">{inputNotice.icon}</span>
+            {inputNotice.label}
+          </span>
+        )}
+        {connected && queueLength > 0 && (
+          <span
+            className={cn('lag-indicator', { behind: isBehind })}
+            title={`${queueLength} segment(s) pending, ${lagSeconds}s behind the transcript`}
+          >
+            <span className="material-symbols-outlined">schedule</span>
+            {lagSeconds}s · {queueLength}
+            {playbackRate > 1 && ` · ${playbackRate}x`}
+          </span>
+        )}
+        {connected && reconnecting.length > 0 ? (
+          <span className="lag-indicator behind" title={`Reconnecting: ${reconnecting.join(', ')}`}>
+            <span className="material-symbols-outlined">sync</span>
+            Reconnecting
+          </span>
+        ) : connected && reconnectNotice && (
+          <span
+            className={cn('lag-indicator', { behind: lastReconnect?.outcome === 'failed' })}
+            title={reconnectNotice.title}
+          >
+            <span className="material-symbols-outlined">{reconnectNotice.icon}</span>
+            {reconnectNotice.label}
+          </span>
+        )}
+        {connected && healthChips.length > 0 && (
+          <div className="health-chips">
+            {healthChips.map(({ key, health, label }) => (
+              <span
+                key={key}
+                className={cn('health-chip', health.state)}
+                title={`${label}: ${HEALTH_LABELS[health.state]}${health.lastError ? ` (${health.lastError})` : ''}${
+                  health.state === 'failed' && health.speaker !== DEFAULT_SPEAKER_ID ? ' · using the default voice' : ''
+                }`}
+              >
+                {label}
+              </span>
+            ))}
+          </div>
+        )}
         <div style={{display: 'flex', alignItems: 'center', gap: '8px'}}>
           <AudioVisualizer volume={volume} active={connected && isVolumeEnabled} />
         </div>
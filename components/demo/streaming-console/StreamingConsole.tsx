@@ -2,18 +2,27 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import { useEffect, useRef, memo, useState } from 'react';
+import { useEffect, useRef, memo, useState, CSSProperties } from 'react';
 import { LiveConnectConfig, Modality, LiveServerContent } from '@google/genai';
+import { functionDeclaration } from '@/lib/tool-runner';
 
 import { useLiveAPIContext } from '../../../contexts/LiveAPIContext';
 import {
   useSettings,
   useLogStore,
   useTools,
+  useSpeakers,
+  useBridgeStatus,
+  useUI,
+  TurnStatus,
+  listeningLanguage,
+  targetLanguages,
 } from '@/lib/state';
+import { GlossaryViolation } from '@/lib/glossary';
+import { Direction, languagePair, sourceOf, targetOf } from '@/lib/two-way';
 
 // Component to render the "Glass Card" style text
-const SubtitleText = memo(({ text, translation, speaker }: { text: string, translation?: string, speaker?: string }) => {
+const SubtitleText = memo(({ turnId, text, translation, speaker, color, direction, directionLabel, isRevision, isResumed, isSkipped, isCached, status, attempts, glossaryViolations }: { turnId?: string, text: string, translation?: string, speaker?: string, color?: string, direction?: Direction, directionLabel?: string, isRevision?: boolean, isResumed?: boolean, isSkipped?: boolean, isCached?: boolean, status?: TurnStatus, attempts?: number, glossaryViolations?: GlossaryViolation[] }) => {
   const speakerClass = speaker ? `speaker-${speaker.toLowerCase().replace(/\s+/g, '-')}` : 'speaker-default';
   const showSpeaker = speaker && speaker !== 'default';
   const label = showSpeaker ? speaker : 'System';
@@ -24,7 +33,10 @@ const SubtitleText = memo(({ text, translation, speaker }: { text: string, trans
   if (label?.toLowerCase().includes('female')) iconName = 'face_3';
 
   return (
-    <div className={`subtitle-card ${speakerClass}`}>
+    <div
+      className={`subtitle-card ${speakerClass}${color ? ' has-speaker-color' : ''}${direction ? ` direction-${direction}` : ''}`}
+      style={color ? ({ '--speaker-color': color } as CSSProperties) : undefined}
+    >
       <div className="card-header">
         <div className="speaker-badge">
           <span className="material-symbols-outlined speaker-icon">
@@ -32,10 +44,74 @@ const SubtitleText = memo(({ text, translation, speaker }: { text: string, trans
           </span>
           {label}
         </div>
+        {directionLabel && (
+          <div className="card-flag direction-flag">
+            <span className="material-symbols-outlined">translate</span>
+            {directionLabel}
+          </div>
+        )}
+        {isRevision && (
+          <div className="card-flag" title="The source paragraph was edited after it was spoken">
+            <span className="material-symbols-outlined">edit_note</span>
+            Corrected
+          </div>
+        )}
+        {isResumed && (
+          <div className="card-flag" title="Restored from the queue saved before the page was reloaded">
+            <span className="material-symbols-outlined">history</span>
+            Resumed
+          </div>
+        )}
+        {isSkipped && (
+          <div className="card-flag" title="Dropped to catch up with the live transcript">
+            <span className="material-symbols-outlined">fast_forward</span>
+            Skipped
+          </div>
+        )}
+        {isCached && (
+          <div className="card-flag" title="Replayed from the translation memory">
+            <span className="material-symbols-outlined">memory</span>
+            Memory
+          </div>
+        )}
+        {glossaryViolations && glossaryViolations.length > 0 && (
+          <div
+            className="card-flag failed"
+            title={glossaryViolations.map(v => `"${v.term}" should be "${v.expected}"`).join('\n')}
+          >
+            <span className="material-symbols-outlined">spellcheck</span>
+            Glossary
+          </div>
+        )}
+        {status === 'retrying' && (
+          <div className="card-flag" title="No audio arrived; requesting the segment again">
+            <span className="material-symbols-outlined">sync</span>
+            Retrying {attempts}
+          </div>
+        )}
+        {status === 'failed' && (
+          <div className="card-flag failed" title="No audio arrived after several attempts">
+            <span className="material-symbols-outlined">error</span>
+            Failed
+          </div>
+        )}
+        {status === 'failed' && turnId && (
+          <button
+            type="button"
+            className="card-action"
+            onClick={() => useBridgeStatus.getState().requestRetry(turnId)}
+            title="Queue this segment again"
+          >
+            <span className="material-symbols-outlined">replay</span>
+            Retry
+          </button>
+        )}
       </div>
       <div className="card-content">
         <div className="subtitle-translation">
-          {translation || <span className="typing-indicator">Translating...</span>}
+          {translation || (isSkipped || status === 'failed'
+            ? <span className="typing-indicator">Not spoken</span>
+            : <span className="typing-indicator">Translating...</span>)}
         </div>
         <div className="subtitle-source">
           {text}
@@ -68,9 +144,14 @@ const DigitalClock = () => {
 
 export default function StreamingConsole() {
   const { client, setConfig } = useLiveAPIContext();
-  const { systemPrompt, voice } = useSettings();
+  const { systemPrompt, voice, language, additionalLanguages, inputMode, twoWay } = useSettings();
+  const { listenerLanguage, setListenerLanguage } = useUI();
+  const languages = targetLanguages({ language, additionalLanguages });
+  const heardLanguage = listeningLanguage({ language, additionalLanguages }, listenerLanguage);
+  const pair = languagePair({ twoWay, language });
   const { tools } = useTools();
   const turns = useLogStore(state => state.turns);
+  const speakers = useSpeakers(state => state.speakers);
   
   // Anchor for auto-scrolling
   const bottomAnchorRef = useRef<HTMLDivElement>(null);
@@ -92,13 +173,7 @@ export default function StreamingConsole() {
     const enabledTools = tools
       .filter(tool => tool.isEnabled)
       .map(tool => ({
-        functionDeclarations: [
-          {
-            name: tool.name,
-            description: tool.description,
-            parameters: tool.parameters,
-          },
-        ],
+        functionDeclarations: [functionDeclaration(tool)],
       }));
 
     if (enabledTools.length > 0) {
@@ -138,18 +213,50 @@ export default function StreamingConsole() {
   return (
     <div className="streaming-console-layout">
       <DigitalClock />
+
+      {pair && (
+        <div className="listener-languages two-way-legend" aria-label="Two-way interpretation">
+          <span className="direction-a-to-b">{pair[0]} → {pair[1]}</span>
+          <span className="direction-b-to-a">{pair[1]} → {pair[0]}</span>
+        </div>
+      )}
+
+      {!pair && languages.length > 1 && (
+        <div className="listener-languages" role="group" aria-label="Listening language">
+          {languages.map(lang => (
+            <button
+              key={lang}
+              type="button"
+              className={lang === heardLanguage ? 'active' : undefined}
+              onClick={() => setListenerLanguage(lang === language ? null : lang)}
+              aria-pressed={lang === heardLanguage}
+            >
+              {lang === heardLanguage && <span className="material-symbols-outlined">headphones</span>}
+              {lang}
+            </button>
+          ))}
+        </div>
+      )}
       
       <div className="transcription-container">
         {scriptTurns.length === 0 ? (
           <div className="waiting-placeholder">
-            <span className="material-symbols-outlined icon">auto_stories</span>
-            <p>Ready to stream database events...</p>
+            <span className="material-symbols-outlined icon">
+              {inputMode === 'microphone' ? 'mic' : inputMode === 'audio-file' ? 'audio_file' : 'auto_stories'}
+            </span>
+            <p>
+              {inputMode === 'microphone'
+                ? 'Start streaming and speak to interpret...'
+                : inputMode === 'audio-file'
+                ? 'Start streaming to interpret the audio file...'
+                : 'Ready to stream database events...'}
+            </p>
           </div>
         ) : (
           <div className="transcription-view subtitle-mode">
             {scriptTurns.map((t, i) => (
               <div key={t.id || i} className="subtitle-wrapper">
-                <SubtitleText text={t.text} translation={t.translation} speaker={t.speaker} />
+                <SubtitleText turnId={t.id} text={t.text} translation={t.direction ? t.translation : t.translations?.[heardLanguage] ?? (heardLanguage === language ? t.translation : undefined)} speaker={t.speaker} color={speakers.find(s => s.id === t.speakerId)?.color} direction={t.direction} directionLabel={t.direction && pair ? `${sourceOf(t.direction, pair)} → ${targetOf(t.direction, pair)}` : undefined} isRevision={!!t.revisionOf} isResumed={t.resumed} isSkipped={t.skipped} isCached={t.cached} status={t.status} attempts={t.attempts} glossaryViolations={t.glossaryViolations} />
               </div>
             ))}
             <div ref={bottomAnchorRef} style={{height: 1, minHeight: 1}} />
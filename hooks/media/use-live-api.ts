@@ -20,12 +20,23 @@
 
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { GenAILiveClient } from '../../lib/genai-live-client';
-import { LiveConnectConfig, Modality, LiveServerToolCall } from '@google/genai';
+import {
+  FunctionCall as FunctionCallRequest,
+  FunctionResponse,
+  LiveConnectConfig,
+  LiveServerToolCall,
+  LiveServerToolCallCancellation,
+} from '@google/genai';
 import { AudioStreamer } from '../../lib/audio-streamer';
 import { audioContext } from '../../lib/utils';
 import VolMeterWorket from '../../lib/worklets/vol-meter';
-import { useLogStore, useSettings } from '@/lib/state';
-import { SPEAKER_VOICE_MAP } from '@/lib/constants';
+import { listeningLanguage, systemPromptFor, useLogStore, useSettings, useSpeakers, useTools, useUI } from '@/lib/state';
+import { ToolCallRunner } from '@/lib/tool-runner';
+import { rolloverMs, withLongSession } from '@/lib/long-session';
+import { withLiveInput } from '@/lib/live-input';
+import { languagePair } from '@/lib/two-way';
+import { DEFAULT_SPEAKER_ID } from '@/lib/speakers';
+import { initialHealth, isRoutable, nextHealth, SpeakerHealth, SpeakerHealthEvent } from '@/lib/speaker-health';
 
 export type UseLiveApiResults = {
   client: GenAILiveClient;
@@ -35,82 +46,221 @@ export type UseLiveApiResults = {
   connect: () => Promise<void>;
   disconnect: () => void;
   connected: boolean;
+  // Health of every speaker's session by channel key, see `channelKey`
+  speakerHealth: Record<string, SpeakerHealth>;
 
   volume: number;
   isVolumeEnabled: boolean;
   setIsVolumeEnabled: (isEnabled: boolean) => void;
   isAudioPlaying: boolean;
-  getAudioStreamerState: (speaker?: string) => { duration: number; endOfQueueTime: number };
+  getAudioStreamerState: (speaker?: string, language?: string) => { duration: number; endOfQueueTime: number };
+  setPlaybackRate: (rate: number) => void;
   
-  // Multi-speaker support
-  sendToSpeaker: (text: string, speaker: string) => void;
-  addOutputListener: (callback: (text: string, isFinal: boolean) => void) => () => void;
+  // Multi-speaker, multi-language support. Audio of a requested segment is
+  // held back until it is released, so segments can be generated ahead of
+  // playback. Segments in other languages than the listener's play muted.
+  requestSegment: (id: string, text: string, speaker: string, language: string) => Promise<SegmentRequest>;
+  releaseSegment: (id: string) => void;
+  cancelSegment: (id: string) => void;
+  // Registers already rendered audio as a finished segment, e.g. from the translation memory
+  replaySegment: (id: string, speaker: string, language: string, audio: Uint8Array) => SegmentRequest;
+  // Drops the speaker's session after a turn came back silent; the next
+  // request starts a new one, or goes to the fallback voice once the speaker failed
+  reconnectSpeaker: (speaker: string, language: string) => Promise<boolean>;
+  addOutputListener: (callback: OutputListener) => () => void;
+  addReconnectListener: (callback: ReconnectListener) => () => void;
 };
 
-const SPEAKERS = ['default', 'Male 1', 'Male 2', 'Female 1', 'Female 2'];
+// `segmentId` is the requested segment the transcription belongs to
+export type OutputListener = (text: string, isFinal: boolean, segmentId?: string) => void;
+
+// A speaker's session in one language dropped and is being reopened
+export interface ReconnectEvent {
+  // 'cancelled' when the session was closed on purpose while reopening
+  phase: 'reconnecting' | 'reconnected' | 'failed' | 'cancelled';
+  speaker: string;
+  language: string;
+  attempt?: number;
+  // Whether the new session kept the model's context
+  resumed?: boolean;
+  // Segment that was being answered and was requested again from the start
+  replayedSegmentId?: string;
+}
+
+export type ReconnectListener = (event: ReconnectEvent) => void;
+
+export interface SegmentRequest {
+  readonly id: string;
+  // Speaker whose client and streamer handle the segment; the default
+  // speaker if the dedicated client could not connect
+  readonly speaker: string;
+  readonly language: string;
+  readonly audioBytes: number;
+  // Date.now() when the first audio chunk arrived
+  readonly firstAudioAt: number | null;
+  // Every chunk received for the segment, in order
+  readonly audio: Uint8Array[];
+  // Played from audio rendered earlier rather than requested from the model
+  readonly replayed: boolean;
+  // Resolves true once the model finished the turn, false if it was cancelled
+  readonly done: Promise<boolean>;
+}
+
+type HeldSegment = {
+  id: string;
+  speaker: string;
+  language: string;
+  // Key of the client and streamer handling the segment
+  channel: string;
+  // Sent again if the session drops before the turn completes
+  text: string;
+  audioBytes: number;
+  firstAudioAt: number | null;
+  audio: Uint8Array[];
+  replayed: boolean;
+  done: Promise<boolean>;
+  // Audio held back until the segment is released
+  chunks: Uint8Array[];
+  released: boolean;
+  complete: boolean;
+  finish: (ok: boolean) => void;
+};
+
+/**
+ * Clients and streamers belong to one speaker in one target language. Keys
+ * in the primary language are plain speaker ids, so the main client is the
+ * default speaker's channel in the primary language.
+ */
+const channelKey = (speaker: string, language: string) =>
+  language === useSettings.getState().language ? speaker : `${speaker}@${language}`;
+
+const channelSpeaker = (key: string) => key.split('@')[0];
+
+const channelLanguage = (key: string) => {
+  const at = key.indexOf('@');
+  return at === -1 ? useSettings.getState().language : key.slice(at + 1);
+};
+
+type SpeakerChannel = {
+  client: GenAILiveClient;
+  // Voice the client's session was configured with
+  voice: string;
+  connecting: Promise<boolean> | null;
+  unbind: () => void;
+};
 
 export function useLiveApi({
   apiKey,
 }: {
   apiKey: string;
 }): UseLiveApiResults {
-  const { model, backgroundPadEnabled, backgroundPadVolume } = useSettings();
+  const { model, backgroundPadEnabled, backgroundPadVolume, language, additionalLanguages, twoWay, mockScenario } = useSettings();
+  const listenerLanguage = useUI(state => state.listenerLanguage);
   
   // Main client (default voice/settings)
-  const client = useMemo(() => new GenAILiveClient(apiKey, model), [apiKey, model]);
+  const client = useMemo(() => new GenAILiveClient(apiKey, model, mockScenario), [apiKey, model, mockScenario]);
+  // Only the main client is given tools
+  const toolRunner = useMemo(() => new ToolCallRunner(client, () => useTools.getState().tools), [client]);
   
-  // Dedicated Speaker Clients
-  const male1 = useMemo(() => new GenAILiveClient(apiKey, model), [apiKey, model]);
-  const male2 = useMemo(() => new GenAILiveClient(apiKey, model), [apiKey, model]);
-  const female1 = useMemo(() => new GenAILiveClient(apiKey, model), [apiKey, model]);
-  const female2 = useMemo(() => new GenAILiveClient(apiKey, model), [apiKey, model]);
+  // Dedicated clients by channel key, created and connected the first time
+  // a speaker is sent text in a language
+  const speakerChannelsRef = useRef<Map<string, SpeakerChannel>>(new Map());
 
-  // Map to hold separate streamers for each speaker to allow overlapping audio
+  // Separate streamers for each channel to allow overlapping audio
   const streamersRef = useRef<Record<string, AudioStreamer>>({});
+  const audioCtxRef = useRef<AudioContext | null>(null);
+  const outputListenersRef = useRef<Set<OutputListener>>(new Set());
+  const reconnectListenersRef = useRef<Set<ReconnectListener>>(new Set());
+
+  // Segments by id, and the one each channel's client is currently answering
+  const segmentsRef = useRef<Map<string, HeldSegment>>(new Map());
+  const activeSegmentsRef = useRef<Map<string, HeldSegment>>(new Map());
+  // Tail of each channel's request chain; a client answers one turn at a time
+  const speakerTurnsRef = useRef<Map<string, Promise<unknown>>>(new Map());
 
   const [volume, setVolume] = useState(0);
   const [isVolumeEnabled, setIsVolumeEnabled] = useState(true);
   const [isAudioPlaying, setIsAudioPlaying] = useState(false);
   const [connected, setConnected] = useState(false);
   const [config, setConfig] = useState<LiveConnectConfig>({});
+  const [speakerHealth, setSpeakerHealth] = useState<Record<string, SpeakerHealth>>({});
+  const speakerHealthRef = useRef(speakerHealth);
 
-  // Initialize streamers
+  const isVolumeEnabledRef = useRef(isVolumeEnabled);
+  const playbackRateRef = useRef(1);
+  const configRef = useRef(config);
+  useEffect(() => { isVolumeEnabledRef.current = isVolumeEnabled; }, [isVolumeEnabled]);
+  useEffect(() => { configRef.current = config; }, [config]);
+
+  const emitReconnect = useCallback((key: string, event: Omit<ReconnectEvent, 'speaker' | 'language'>) => {
+    const full = { ...event, speaker: channelSpeaker(key), language: channelLanguage(key) };
+    reconnectListenersRef.current.forEach(listener => listener(full));
+  }, []);
+
+  const reportHealth = useCallback((key: string, event: SpeakerHealthEvent, error?: string) => {
+    const current = speakerHealthRef.current[key] || initialHealth(channelSpeaker(key), channelLanguage(key));
+    speakerHealthRef.current = { ...speakerHealthRef.current, [key]: nextHealth(current, event, error) };
+    setSpeakerHealth(speakerHealthRef.current);
+  }, []);
+
+  const resetHealth = useCallback(() => {
+    speakerHealthRef.current = {};
+    setSpeakerHealth({});
+  }, []);
+
+  // Both parties hear a two-way interpretation, each in their own language
+  const isAudible = useCallback((key: string) => {
+    const settings = useSettings.getState();
+    const pair = languagePair(settings);
+    if (pair) return pair.includes(channelLanguage(key));
+    return channelLanguage(key) === listeningLanguage(settings, useUI.getState().listenerLanguage);
+  }, []);
+
+  const getStreamer = useCallback((key: string): AudioStreamer | undefined => {
+    const existing = streamersRef.current[key];
+    if (existing) return existing;
+    const audioCtx = audioCtxRef.current;
+    if (!audioCtx) return undefined;
+
+    const streamer = new AudioStreamer(audioCtx);
+    
+    // Apply current volume state
+    streamer.gainNode.gain.value = isVolumeEnabledRef.current ? 1 : 0;
+    streamer.setPlaybackRate(playbackRateRef.current);
+    streamer.setSpeechMuted(!isAudible(key));
+    
+    // Bind playback state callbacks (simple OR logic aggregation)
+    streamer.onPlay = () => setIsAudioPlaying(true);
+    // We don't set isAudioPlaying false here individually because others might be playing.
+    // For this simple demo, visualizer relies more on 'volume' > 0.
+
+    streamer.addWorklet<any>('vumeter-out', VolMeterWorket, (ev: any) => {
+        // Aggregate volume: take the max of current visual or new input
+        // This is a simple approximation for visualization
+        setVolume(prev => Math.max(prev * 0.8, ev.data.volume)); 
+    }).catch(err => console.error(`Error adding worklet for ${key}:`, err));
+    
+    streamersRef.current[key] = streamer;
+    return streamer;
+  }, [isAudible]);
+
+  // Initialize the output context and the default streamer
   useEffect(() => {
-    if (Object.keys(streamersRef.current).length === 0) {
-      audioContext({ id: 'audio-out' }).then((audioCtx: AudioContext) => {
-        
-        SPEAKERS.forEach(key => {
-          const streamer = new AudioStreamer(audioCtx);
-          
-          // Apply initial volume state
-          streamer.gainNode.gain.value = isVolumeEnabled ? 1 : 0;
-          
-          // Bind playback state callbacks (simple OR logic aggregation)
-          streamer.onPlay = () => setIsAudioPlaying(true);
-          // We don't set isAudioPlaying false here individually because others might be playing.
-          // For this simple demo, visualizer relies more on 'volume' > 0.
-
-          streamer.addWorklet<any>('vumeter-out', VolMeterWorket, (ev: any) => {
-              // Aggregate volume: take the max of current visual or new input
-              // This is a simple approximation for visualization
-              setVolume(prev => Math.max(prev * 0.8, ev.data.volume)); 
-          }).catch(err => console.error(`Error adding worklet for ${key}:`, err));
-          
-          streamersRef.current[key] = streamer;
-        });
-
-        // Initialize Pad on the default streamer
-        if (backgroundPadEnabled && streamersRef.current['default']) {
-          streamersRef.current['default'].startPad(backgroundPadVolume);
-        }
+    if (audioCtxRef.current) return;
+    audioContext({ id: 'audio-out' }).then((audioCtx: AudioContext) => {
+      audioCtxRef.current = audioCtx;
+      const defaultStreamer = getStreamer(DEFAULT_SPEAKER_ID);
 
-      });
-    }
-  }, [backgroundPadEnabled, backgroundPadVolume, isVolumeEnabled]);
+      // Initialize Pad on the default streamer
+      if (backgroundPadEnabled && defaultStreamer) {
+        defaultStreamer.startPad(backgroundPadVolume);
+      }
+    });
+  }, [backgroundPadEnabled, backgroundPadVolume, getStreamer]);
 
   // Sync background pad settings
   useEffect(() => {
-    const defaultStreamer = streamersRef.current['default'];
+    const defaultStreamer = streamersRef.current[DEFAULT_SPEAKER_ID];
     if (!defaultStreamer) return;
     
     if (backgroundPadEnabled) {
@@ -121,12 +271,19 @@ export function useLiveApi({
   }, [backgroundPadEnabled]);
 
   useEffect(() => {
-    const defaultStreamer = streamersRef.current['default'];
+    const defaultStreamer = streamersRef.current[DEFAULT_SPEAKER_ID];
     if (defaultStreamer && backgroundPadEnabled) {
       defaultStreamer.setPadVolume(backgroundPadVolume);
     }
   }, [backgroundPadVolume]);
 
+  // Only the listener's language is heard
+  useEffect(() => {
+    Object.entries(streamersRef.current).forEach(([key, streamer]: [string, AudioStreamer]) => {
+      streamer.setSpeechMuted(!isAudible(key));
+    });
+  }, [listenerLanguage, language, additionalLanguages, twoWay, isAudible]);
+
   // Sync volume enabled state with gain nodes
   useEffect(() => {
     Object.values(streamersRef.current).forEach((streamer: AudioStreamer) => {
@@ -134,181 +291,425 @@ export function useLiveApi({
     });
   }, [isVolumeEnabled]);
 
+  // Routes a client's output to the segment it is answering
+  const bindSpeakerOutput = useCallback((speakerClient: GenAILiveClient, key: string) => {
+    const onAudio = (data: ArrayBuffer) => {
+      const chunk = new Uint8Array(data);
+      const segment = activeSegmentsRef.current.get(key);
+      if (segment) {
+        segment.firstAudioAt ??= Date.now();
+        segment.audioBytes += chunk.byteLength;
+        segment.audio.push(chunk);
+      }
+      if (segment && !segment.released) {
+        segment.chunks.push(chunk);
+        return;
+      }
+      getStreamer(key)?.addPCM16(chunk);
+    };
+    const onTranscription = (text: string, isFinal: boolean) => {
+      const segmentId = activeSegmentsRef.current.get(key)?.id;
+      outputListenersRef.current.forEach(listener => listener(text, isFinal, segmentId));
+    };
+    const onTurnComplete = () => {
+      const segment = activeSegmentsRef.current.get(key);
+      if (segment && segment.audioBytes > 0) reportHealth(key, 'heard');
+      segment?.finish(true);
+    };
+
+    const notify = (event: Omit<ReconnectEvent, 'speaker' | 'language'>) => emitReconnect(key, event);
+    const onReconnecting = (reason: string, attempt: number) => {
+      reportHealth(key, 'reconnecting', reason);
+      notify({ phase: 'reconnecting', attempt });
+    };
+    // The turn cut off by the drop is asked for again on the new session;
+    // audio already played of it is cut so the segment restarts cleanly
+    const onReconnected = (resumed: boolean) => {
+      const segment = activeSegmentsRef.current.get(key);
+      if (segment && !segment.complete) {
+        if (segment.released && segment.audioBytes > 0) getStreamer(key)?.stop();
+        segment.audioBytes = 0;
+        segment.firstAudioAt = null;
+        segment.audio = [];
+        segment.chunks = [];
+        speakerClient.send([{ text: segment.text }]);
+      }
+      reportHealth(key, 'reconnected');
+      notify({ phase: 'reconnected', resumed, replayedSegmentId: segment?.complete ? undefined : segment?.id });
+    };
+    const onReconnectFailed = (reason: string) => {
+      reportHealth(key, 'error', reason);
+      activeSegmentsRef.current.get(key)?.finish(false);
+      notify({ phase: 'failed' });
+    };
+
+    speakerClient.on('audio', onAudio);
+    speakerClient.on('outputTranscription', onTranscription);
+    speakerClient.on('turncomplete', onTurnComplete);
+    speakerClient.on('reconnecting', onReconnecting);
+    speakerClient.on('reconnected', onReconnected);
+    speakerClient.on('reconnectfailed', onReconnectFailed);
+    return () => {
+      speakerClient.off('audio', onAudio);
+      speakerClient.off('outputTranscription', onTranscription);
+      speakerClient.off('turncomplete', onTurnComplete);
+      speakerClient.off('reconnecting', onReconnecting);
+      speakerClient.off('reconnected', onReconnected);
+      speakerClient.off('reconnectfailed', onReconnectFailed);
+    };
+  }, [getStreamer, emitReconnect, reportHealth]);
+
+  const cancelAllSegments = useCallback(() => {
+    Array.from(segmentsRef.current.values()).forEach((segment: HeldSegment) => segment.finish(false));
+    segmentsRef.current.clear();
+    activeSegmentsRef.current.clear();
+    speakerTurnsRef.current.clear();
+  }, []);
+
   useEffect(() => {
-    const onOpen = () => setConnected(true);
+    const onOpen = () => {
+      setConnected(true);
+      reportHealth(DEFAULT_SPEAKER_ID, 'open');
+    };
     const onClose = () => setConnected(false);
+    const onError = (e: ErrorEvent) => {
+      if (client.status === 'disconnected') reportHealth(DEFAULT_SPEAKER_ID, 'error', e.message);
+    };
     
     // Stop all streamers if main client is interrupted
     const stopAllStreamers = () => {
       Object.values(streamersRef.current).forEach((s: AudioStreamer) => s.stop());
     };
 
-    // Helper to route audio to specific streamer
-    const onAudio = (speaker: string) => (data: ArrayBuffer) => {
-      const streamer = streamersRef.current[speaker];
-      if (streamer) {
-        streamer.addPCM16(new Uint8Array(data));
-      }
-    };
-
     // Bind event listeners to Main Client
     client.on('open', onOpen);
     client.on('close', onClose);
+    client.on('error', onError);
     client.on('interrupted', stopAllStreamers);
-    client.on('audio', onAudio('default'));
-
-    // Bind audio listeners to Speaker Clients
-    male1.on('audio', onAudio('Male 1'));
-    male2.on('audio', onAudio('Male 2'));
-    female1.on('audio', onAudio('Female 1'));
-    female2.on('audio', onAudio('Female 2'));
-
-    // Only attaching tool handling to the main client for this demo scope
-    const onToolCall = (toolCall: LiveServerToolCall) => {
-      const functionResponses: any[] = [];
-      for (const fc of toolCall.functionCalls) {
-        const triggerMessage = `Triggering function call: **${fc.name}**\n\`\`\`json\n${JSON.stringify(fc.args, null, 2)}\n\`\`\``;
-        useLogStore.getState().addTurn({ role: 'system', text: triggerMessage, isFinal: true });
-        functionResponses.push({ id: fc.id, name: fc.name, response: { result: 'ok' } });
-      }
-      if (functionResponses.length > 0) {
-        const responseMessage = `Function call response:\n\`\`\`json\n${JSON.stringify(functionResponses, null, 2)}\n\`\`\``;
-        useLogStore.getState().addTurn({ role: 'system', text: responseMessage, isFinal: true });
-      }
-      client.sendToolResponse({ functionResponses: functionResponses });
+    const unbindOutput = bindSpeakerOutput(client, DEFAULT_SPEAKER_ID);
+
+    const onToolCall = (toolCall: LiveServerToolCall) => toolRunner.handle(toolCall);
+    const onToolCallCancellation = (cancellation: LiveServerToolCallCancellation) => toolRunner.cancel(cancellation);
+    const onToolStarted = (fc: FunctionCallRequest) => {
+      const triggerMessage = `Triggering function call: **${fc.name}**\n\`\`\`json\n${JSON.stringify(fc.args, null, 2)}\n\`\`\``;
+      useLogStore.getState().addTurn({ role: 'system', text: triggerMessage, isFinal: true });
     };
+    const onToolFinished = (fc: FunctionCallRequest, response: FunctionResponse, durationMs: number) => {
+      const responseMessage = `Function call response (${durationMs}ms):\n\`\`\`json\n${JSON.stringify(response, null, 2)}\n\`\`\``;
+      useLogStore.getState().addTurn({ role: 'system', text: responseMessage, isFinal: true });
+    };
+    const onToolCancelled = (fc: FunctionCallRequest) => {
+      useLogStore.getState().addTurn({ role: 'system', text: `Function call cancelled: **${fc.name}**`, isFinal: true });
+    };
+    // Calls of a session that is gone can no longer be answered
+    const onSessionClosed = () => toolRunner.cancelAll();
 
     client.on('toolcall', onToolCall);
+    client.on('toolcallcancellation', onToolCallCancellation);
+    client.on('close', onSessionClosed);
+    client.on('rollover', onSessionClosed);
+    toolRunner.on('started', onToolStarted);
+    toolRunner.on('finished', onToolFinished);
+    toolRunner.on('cancelled', onToolCancelled);
 
     return () => {
       // Clean up event listeners
       client.off('open', onOpen);
       client.off('close', onClose);
+      client.off('error', onError);
       client.off('interrupted', stopAllStreamers);
-      client.off('audio', onAudio('default'));
+      unbindOutput();
       client.off('toolcall', onToolCall);
-      
-      male1.off('audio', onAudio('Male 1'));
-      male2.off('audio', onAudio('Male 2'));
-      female1.off('audio', onAudio('Female 1'));
-      female2.off('audio', onAudio('Female 2'));
+      client.off('toolcallcancellation', onToolCallCancellation);
+      client.off('close', onSessionClosed);
+      client.off('rollover', onSessionClosed);
+      toolRunner.off('started', onToolStarted);
+      toolRunner.off('finished', onToolFinished);
+      toolRunner.off('cancelled', onToolCancelled);
+      toolRunner.cancelAll();
+    };
+  }, [client, toolRunner, bindSpeakerOutput, reportHealth]);
+
+  const closeSpeakerChannel = useCallback((key: string) => {
+    const channel = speakerChannelsRef.current.get(key);
+    if (!channel) return;
+    activeSegmentsRef.current.get(key)?.finish(false);
+    if (channel.client.status === 'reconnecting') emitReconnect(key, { phase: 'cancelled' });
+    channel.unbind();
+    channel.client.disconnect();
+    speakerChannelsRef.current.delete(key);
+  }, [emitReconnect]);
+
+  const disconnectMainClient = useCallback(() => {
+    if (client.status === 'reconnecting') emitReconnect(DEFAULT_SPEAKER_ID, { phase: 'cancelled' });
+    toolRunner.cancelAll();
+    client.disconnect();
+  }, [client, toolRunner, emitReconnect]);
+
+  const closeAllSpeakerChannels = useCallback(() => {
+    Array.from(speakerChannelsRef.current.keys()).forEach(closeSpeakerChannel);
+  }, [closeSpeakerChannel]);
+
+  // Speaker clients belong to the current api key, model and mock scenario
+  useEffect(() => closeAllSpeakerChannels, [apiKey, model, mockScenario, closeAllSpeakerChannels]);
+
+  const getSpeakerConfig = useCallback((voiceName: string, language: string): LiveConnectConfig => withLongSession({
+    ...configRef.current,
+    systemInstruction: systemPromptFor(language),
+    speechConfig: {
+      voiceConfig: {
+        prebuiltVoiceConfig: {
+          voiceName: voiceName
+        }
+      }
+    }
+  }, useSettings.getState().longSession), []);
+
+  // Config of the main client, read again on every fresh session so a
+  // rollover picks up the current system prompt and glossary. Audio input
+  // only ever goes to the main client.
+  const getMainConfig = useCallback(() => {
+    const { longSession, inputMode } = useSettings.getState();
+    return withLiveInput(withLongSession(configRef.current, longSession), inputMode);
+  }, []);
+
+  const openSpeakerChannel = useCallback((key: string, voice: string): SpeakerChannel => {
+    const speakerClient = new GenAILiveClient(apiKey, model, mockScenario);
+    speakerClient.setRollover(
+      rolloverMs(useSettings.getState().longSession),
+      () => getSpeakerConfig(voice, channelLanguage(key))
+    );
+    const channel: SpeakerChannel = {
+      client: speakerClient,
+      voice,
+      connecting: null,
+      unbind: bindSpeakerOutput(speakerClient, key),
     };
-  }, [client, male1, male2, female1, female2]);
+    speakerChannelsRef.current.set(key, channel);
+    return channel;
+  }, [apiKey, model, mockScenario, bindSpeakerOutput, getSpeakerConfig]);
 
   const connect = useCallback(async () => {
     if (!config) {
       throw new Error('config has not been set');
     }
     
-    // Disconnect all first
-    client.disconnect();
-    male1.disconnect();
-    male2.disconnect();
-    female1.disconnect();
-    female2.disconnect();
+    // Disconnect all first; speaker clients reconnect on their next segment
+    disconnectMainClient();
+    closeAllSpeakerChannels();
+    cancelAllSegments();
+    resetHealth();
     
     // Resume audio context
-    if (Object.values(streamersRef.current).length > 0) {
+    const defaultStreamer = streamersRef.current[DEFAULT_SPEAKER_ID];
+    if (defaultStreamer) {
       try {
-        // Resume any/all
-        await streamersRef.current['default'].resume();
+        await defaultStreamer.resume();
         if (backgroundPadEnabled) {
-          streamersRef.current['default'].startPad(backgroundPadVolume);
+          defaultStreamer.startPad(backgroundPadVolume);
         }
       } catch (e) {
         console.warn('Failed to resume audio context:', e);
       }
     }
-    
-    // Create config helper
-    const getSpeakerConfig = (voiceName: string): LiveConnectConfig => ({
-      ...config,
-      speechConfig: {
-        voiceConfig: {
-          prebuiltVoiceConfig: {
-            voiceName: voiceName
-          }
-        }
-      }
-    });
 
-    // Sequentially connect clients to avoid "Service Unavailable" burst errors
     try {
-      await client.connect(config);
-      await new Promise(r => setTimeout(r, 50)); // Tiny stagger
-      
-      await male1.connect(getSpeakerConfig(SPEAKER_VOICE_MAP['Male 1']));
-      await new Promise(r => setTimeout(r, 50));
-      
-      await male2.connect(getSpeakerConfig(SPEAKER_VOICE_MAP['Male 2']));
-      await new Promise(r => setTimeout(r, 50));
-      
-      await female1.connect(getSpeakerConfig(SPEAKER_VOICE_MAP['Female 1']));
-      await new Promise(r => setTimeout(r, 50));
-      
-      await female2.connect(getSpeakerConfig(SPEAKER_VOICE_MAP['Female 2']));
+      client.setRollover(rolloverMs(useSettings.getState().longSession), getMainConfig);
+      reportHealth(DEFAULT_SPEAKER_ID, 'connect');
+      await client.connect(getMainConfig());
     } catch (err) {
       console.error("Initialization error:", err);
       // We rely on the internal error handlers to update state if things fail partially
     }
 
-  }, [client, male1, male2, female1, female2, config, backgroundPadEnabled, backgroundPadVolume]);
+  }, [client, config, getMainConfig, disconnectMainClient, closeAllSpeakerChannels, cancelAllSegments, resetHealth, reportHealth, backgroundPadEnabled, backgroundPadVolume]);
 
   const disconnect = useCallback(async () => {
-    client.disconnect();
-    male1.disconnect();
-    male2.disconnect();
-    female1.disconnect();
-    female2.disconnect();
+    disconnectMainClient();
+    closeAllSpeakerChannels();
+    cancelAllSegments();
+    resetHealth();
     setConnected(false);
-  }, [setConnected, client, male1, male2, female1, female2]);
+  }, [setConnected, disconnectMainClient, closeAllSpeakerChannels, cancelAllSegments, resetHealth]);
 
-  const getAudioStreamerState = useCallback((speaker?: string) => {
-    const target = speaker && streamersRef.current[speaker] ? streamersRef.current[speaker] : streamersRef.current['default'];
+  const getAudioStreamerState = useCallback((speaker?: string, language?: string) => {
+    const key = channelKey(speaker || DEFAULT_SPEAKER_ID, language || useSettings.getState().language);
+    const target = getStreamer(key) || streamersRef.current[DEFAULT_SPEAKER_ID];
     return {
       duration: target?.duration || 0,
       endOfQueueTime: target?.endOfQueueTime || 0,
     };
+  }, [getStreamer]);
+
+  const setPlaybackRate = useCallback((rate: number) => {
+    if (rate === playbackRateRef.current) return;
+    playbackRateRef.current = rate;
+    Object.values(streamersRef.current).forEach((streamer: AudioStreamer) => streamer.setPlaybackRate(rate));
+  }, []);
+
+  // Resolves the client that should speak for `speaker` in `language`,
+  // connecting it on first use. Falls back to the language's default
+  // speaker if it cannot connect or has failed recently.
+  const resolveSpeakerClient = useCallback(async (
+    speaker: string,
+    language: string
+  ): Promise<{ speaker: string; channel: string; speakerClient: GenAILiveClient }> => {
+    const profile = useSpeakers.getState().speakers.find(s => s.id === speaker);
+    if (speaker !== DEFAULT_SPEAKER_ID && !profile) {
+      return resolveSpeakerClient(DEFAULT_SPEAKER_ID, language);
+    }
+    const key = channelKey(speaker, language);
+    if (key === DEFAULT_SPEAKER_ID) {
+      return { speaker, channel: key, speakerClient: client };
+    }
+    if (speaker !== DEFAULT_SPEAKER_ID && !isRoutable(speakerHealthRef.current[key])) {
+      return resolveSpeakerClient(DEFAULT_SPEAKER_ID, language);
+    }
+
+    const voice = profile?.voice || useSettings.getState().voice;
+    let channel = speakerChannelsRef.current.get(key);
+    // A session keeps the voice it was opened with, so a changed voice needs a new one
+    if (channel && channel.voice !== voice) {
+      closeSpeakerChannel(key);
+      channel = undefined;
+    }
+    if (!channel) {
+      channel = openSpeakerChannel(key, voice);
+    }
+
+    if (channel.client.status === 'reconnecting') {
+      await channel.client.waitForReconnect();
+    }
+    if (channel.client.status !== 'connected') {
+      if (!channel.connecting) {
+        const pending = channel;
+        reportHealth(key, 'connect');
+        pending.connecting = pending.client
+          .connect(getSpeakerConfig(voice, language))
+          .then(ok => {
+            reportHealth(key, ok ? 'open' : 'error', ok ? undefined : 'Could not connect');
+            return ok;
+          })
+          .finally(() => { pending.connecting = null; });
+      }
+      const ok = await channel.connecting;
+      if ((!ok || channel.client.status !== 'connected') && speaker !== DEFAULT_SPEAKER_ID) {
+        console.warn(`Speaker "${profile?.name}" could not connect in ${language}; using the default voice.`);
+        return resolveSpeakerClient(DEFAULT_SPEAKER_ID, language);
+      }
+    }
+    return { speaker, channel: key, speakerClient: channel.client };
+  }, [client, openSpeakerChannel, closeSpeakerChannel, getSpeakerConfig, reportHealth]);
+
+  const createSegment = useCallback((id: string, speaker: string, language: string, channel: string, text: string = '') => {
+    let finish: (ok: boolean) => void = () => {};
+    const segment: HeldSegment = {
+      id,
+      speaker,
+      language,
+      channel,
+      text,
+      audioBytes: 0,
+      firstAudioAt: null,
+      audio: [],
+      replayed: false,
+      chunks: [],
+      released: false,
+      complete: false,
+      done: new Promise<boolean>(resolve => { finish = resolve; }),
+      finish: ok => {
+        if (segment.complete) return;
+        segment.complete = true;
+        if (activeSegmentsRef.current.get(segment.channel) === segment) {
+          activeSegmentsRef.current.delete(segment.channel);
+        }
+        // Cancelled segments never play; finished ones stay until released
+        if (!ok || segment.released) segmentsRef.current.delete(segment.id);
+        if (!ok) segment.chunks = [];
+        finish(ok);
+      },
+    };
+    segmentsRef.current.set(id, segment);
+    return segment;
   }, []);
 
-  // Send text to specific speaker client
-  const sendToSpeaker = useCallback((text: string, speaker: string) => {
-    switch(speaker) {
-      case 'Male 1':
-        male1.send([{ text }]);
-        break;
-      case 'Male 2':
-        male2.send([{ text }]);
-        break;
-      case 'Female 1':
-        female1.send([{ text }]);
-        break;
-      case 'Female 2':
-        female2.send([{ text }]);
-        break;
-      default:
-        client.send([{ text }]);
+  const requestSegment = useCallback(async (id: string, text: string, speaker: string, language: string): Promise<SegmentRequest> => {
+    const target = await resolveSpeakerClient(speaker, language);
+    const segment = createSegment(id, target.speaker, language, target.channel, text);
+
+    // Wait for the client to finish the turn it is on
+    const previous = speakerTurnsRef.current.get(target.channel) || Promise.resolve();
+    speakerTurnsRef.current.set(target.channel, previous.then(() => segment.done));
+    await previous;
+
+    if (segment.complete) return segment;
+    if (target.speakerClient.status === 'reconnecting') {
+      await target.speakerClient.waitForReconnect();
+      if (segment.complete) return segment;
+    }
+    if (target.speakerClient.status !== 'connected') {
+      segment.finish(false);
+      return segment;
+    }
+    activeSegmentsRef.current.set(target.channel, segment);
+    target.speakerClient.send([{ text }]);
+    return segment;
+  }, [resolveSpeakerClient, createSegment]);
+
+  const replaySegment = useCallback((id: string, speaker: string, language: string, audio: Uint8Array): SegmentRequest => {
+    const segment = createSegment(id, speaker, language, channelKey(speaker, language));
+    segment.replayed = true;
+    segment.firstAudioAt = Date.now();
+    segment.audioBytes = audio.byteLength;
+    segment.audio.push(audio);
+    segment.chunks.push(audio);
+    segment.finish(true);
+    return segment;
+  }, [createSegment]);
+
+  // Starts playback of a segment's audio, including audio still to come
+  const releaseSegment = useCallback((id: string) => {
+    const segment = segmentsRef.current.get(id);
+    if (!segment || segment.released) return;
+    segment.released = true;
+    const streamer = getStreamer(segment.channel);
+    segment.chunks.forEach(chunk => streamer?.addPCM16(chunk));
+    segment.chunks = [];
+    if (segment.complete) segmentsRef.current.delete(id);
+  }, [getStreamer]);
+
+  const cancelSegment = useCallback((id: string) => {
+    segmentsRef.current.get(id)?.finish(false);
+  }, []);
+
+  const reconnectSpeaker = useCallback(async (speaker: string, language: string) => {
+    const key = channelKey(speaker, language);
+    reportHealth(key, 'silent');
+    if (key !== DEFAULT_SPEAKER_ID) {
+      closeSpeakerChannel(key);
+      return true;
     }
-  }, [client, male1, male2, female1, female2]);
+    // The main client carries the connected state, so its session is
+    // replaced in place and the other channels keep going
+    activeSegmentsRef.current.get(DEFAULT_SPEAKER_ID)?.finish(false);
+    reportHealth(key, 'connect');
+    return client.restart('No audio received', getMainConfig());
+  }, [client, closeSpeakerChannel, getMainConfig, reportHealth]);
 
   // Aggregate output listeners
-  const addOutputListener = useCallback((callback: (text: string, isFinal: boolean) => void) => {
-    const handler = (text: string, isFinal: boolean) => callback(text, isFinal);
-    
-    client.on('outputTranscription', handler);
-    male1.on('outputTranscription', handler);
-    male2.on('outputTranscription', handler);
-    female1.on('outputTranscription', handler);
-    female2.on('outputTranscription', handler);
+  const addOutputListener = useCallback((callback: OutputListener) => {
+    outputListenersRef.current.add(callback);
+    return () => {
+      outputListenersRef.current.delete(callback);
+    };
+  }, []);
 
+  const addReconnectListener = useCallback((callback: ReconnectListener) => {
+    reconnectListenersRef.current.add(callback);
     return () => {
-      client.off('outputTranscription', handler);
-      male1.off('outputTranscription', handler);
-      male2.off('outputTranscription', handler);
-      female1.off('outputTranscription', handler);
-      female2.off('outputTranscription', handler);
+      reconnectListenersRef.current.delete(callback);
     };
-  }, [client, male1, male2, female1, female2]);
+  }, []);
 
   return {
     client,
@@ -316,13 +717,20 @@ export function useLiveApi({
     setConfig,
     connect,
     connected,
+    speakerHealth,
     disconnect,
     volume,
     isVolumeEnabled,
     setIsVolumeEnabled,
     isAudioPlaying,
     getAudioStreamerState,
-    sendToSpeaker,
+    setPlaybackRate,
+    requestSegment,
+    releaseSegment,
+    cancelSegment,
+    replaySegment,
+    reconnectSpeaker,
     addOutputListener,
+    addReconnectListener,
   };
-}
\ No newline at end of file
+}
@@ -18,5 +18,186 @@
  * limitations under the License.
  */
 
-// This file is unused in the current application configuration.
-export {};
+import EventEmitter from 'eventemitter3';
+import { audioContext } from './utils';
+import AudioRecordingWorklet from './worklets/audio-processing';
+import VolMeterWorket from './worklets/vol-meter';
+import { createWorketFromSrc } from './audioworklet-registry';
+
+export interface AudioRecorderEventTypes {
+  // Base64 16-bit PCM at the recorder's sample rate
+  data: (base64: string) => void;
+  volume: (volume: number) => void;
+  // Seconds of an audio file sent so far, and its length
+  progress: (seconds: number, duration: number) => void;
+  // An audio file was sent to the end
+  ended: () => void;
+}
+
+function arrayBufferToBase64(buffer: ArrayBuffer) {
+  var binary = '';
+  var bytes = new Uint8Array(buffer);
+  var len = bytes.byteLength;
+  for (var i = 0; i < len; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return window.btoa(binary);
+}
+
+// Worklet modules already added to each context; adding one twice fails
+const loadedWorklets: WeakMap<AudioContext, Map<string, Promise<void>>> = new WeakMap();
+
+const loadWorklet = (context: AudioContext, workletName: string, workletSrc: string) => {
+  let loaded = loadedWorklets.get(context);
+  if (!loaded) {
+    loaded = new Map();
+    loadedWorklets.set(context, loaded);
+  }
+  let loading = loaded.get(workletName);
+  if (!loading) {
+    loading = context.audioWorklet.addModule(createWorketFromSrc(workletName, workletSrc));
+    loaded.set(workletName, loading);
+  }
+  return loading;
+};
+
+/**
+ * Captures the microphone, or plays an audio file in real time, and emits it
+ * as 16-bit PCM chunks ready for `sendRealtimeInput`.
+ */
+export class AudioRecorder {
+  public emitter = new EventEmitter<AudioRecorderEventTypes>();
+
+  stream: MediaStream | undefined;
+  audioContext: AudioContext | undefined;
+  source: MediaStreamAudioSourceNode | AudioBufferSourceNode | undefined;
+  recording: boolean = false;
+  recordingWorklet: AudioWorkletNode | undefined;
+  vuWorklet: AudioWorkletNode | undefined;
+
+  // Bumped by every start and stop, so a start overtaken by a stop gives up
+  private generation = 0;
+  private fileDuration = 0;
+  private samplesSent = 0;
+
+  constructor(public sampleRate = 16000) {}
+
+  public on<K extends keyof AudioRecorderEventTypes>(event: K, listener: AudioRecorderEventTypes[K]): this {
+    this.emitter.on(event, listener as any);
+    return this;
+  }
+
+  public off<K extends keyof AudioRecorderEventTypes>(event: K, listener: AudioRecorderEventTypes[K]): this {
+    this.emitter.off(event, listener as any);
+    return this;
+  }
+
+  async start() {
+    if (!navigator.mediaDevices || !navigator.mediaDevices.getUserMedia) {
+      throw new Error('Could not request user media');
+    }
+    await this.begin(async generation => {
+      // Translations play from the speakers, so the echo has to be cancelled
+      const stream = await navigator.mediaDevices.getUserMedia({
+        audio: { echoCancellation: true, noiseSuppression: true, autoGainControl: true },
+      });
+      if (generation !== this.generation) {
+        stream.getTracks().forEach(track => track.stop());
+        return null;
+      }
+      this.stream = stream;
+      return this.audioContext!.createMediaStreamSource(stream);
+    });
+  }
+
+  // Plays `file` into the recorder in real time, without making it audible
+  async startFile(file: File | Blob) {
+    await this.begin(async generation => {
+      const buffer = await this.audioContext!.decodeAudioData(await file.arrayBuffer());
+      if (generation !== this.generation) return null;
+      const source = this.audioContext!.createBufferSource();
+      source.buffer = buffer;
+      this.fileDuration = buffer.duration;
+      source.onended = () => {
+        if (generation === this.generation) this.recordingWorklet?.port.postMessage('flush');
+      };
+      return source;
+    });
+  }
+
+  private async begin(
+    createSource: (generation: number) => Promise<MediaStreamAudioSourceNode | AudioBufferSourceNode | null>
+  ) {
+    this.stop();
+    const generation = ++this.generation;
+    const starting = (async () => {
+      this.audioContext = await audioContext({ sampleRate: this.sampleRate, id: 'audio-in' });
+      if (this.audioContext.state === 'suspended') await this.audioContext.resume();
+      const source = await createSource(generation);
+      if (!source || generation !== this.generation) return;
+      this.source = source;
+      this.samplesSent = 0;
+
+      const workletName = 'audio-recorder-worklet';
+      await loadWorklet(this.audioContext, workletName, AudioRecordingWorklet);
+      if (generation !== this.generation) return;
+      this.recordingWorklet = new AudioWorkletNode(this.audioContext, workletName);
+      this.recordingWorklet.port.onmessage = (ev: MessageEvent) => {
+        if (ev.data.event === 'flushed') {
+          this.emitter.emit('ended');
+          return;
+        }
+        const arrayBuffer = ev.data.data?.int16arrayBuffer;
+        if (!arrayBuffer) return;
+        this.emitter.emit('data', arrayBufferToBase64(arrayBuffer));
+        if (this.source instanceof AudioBufferSourceNode) {
+          this.samplesSent += arrayBuffer.byteLength / 2;
+          this.emitter.emit('progress', Math.min(this.samplesSent / this.sampleRate, this.fileDuration), this.fileDuration);
+        }
+      };
+      this.source.connect(this.recordingWorklet);
+
+      // vu meter worklet
+      const vuWorkletName = 'vu-meter';
+      await loadWorklet(this.audioContext, vuWorkletName, VolMeterWorket);
+      if (generation !== this.generation) return;
+      this.vuWorklet = new AudioWorkletNode(this.audioContext, vuWorkletName);
+      this.vuWorklet.port.onmessage = (ev: MessageEvent) => {
+        this.emitter.emit('volume', ev.data.volume);
+      };
+      this.source.connect(this.vuWorklet);
+      if (this.source instanceof AudioBufferSourceNode) this.source.start();
+      this.recording = true;
+    })();
+    try {
+      await starting;
+    } catch (e) {
+      if (generation === this.generation) this.stop();
+      throw e;
+    }
+  }
+
+  stop() {
+    this.generation++;
+    if (this.source instanceof AudioBufferSourceNode) {
+      this.source.onended = null;
+      try {
+        this.source.stop();
+      } catch {
+        // Never started
+      }
+    }
+    this.source?.disconnect();
+    this.stream?.getTracks().forEach(track => track.stop());
+    if (this.recordingWorklet) this.recordingWorklet.port.onmessage = null;
+    if (this.vuWorklet) this.vuWorklet.port.onmessage = null;
+    this.recordingWorklet?.disconnect();
+    this.vuWorklet?.disconnect();
+    this.stream = undefined;
+    this.source = undefined;
+    this.recordingWorklet = undefined;
+    this.vuWorklet = undefined;
+    this.recording = false;
+    this.fileDuration = 0;
+  }
+}
@@ -49,8 +49,13 @@ export class AudioStreamer {
   public isPlaying: boolean = false;
   private scheduledTime: number = 0;
   private initialBufferTime: number = 0.1;
+  // Applied to buffers as they are scheduled; pitch rises with the rate
+  private playbackRate: number = 1;
   
   public gainNode: GainNode;
+  // Speech only, so muting it leaves the ambient pad playing
+  private speechGain: GainNode;
+  private speechMuted: boolean = false;
   public source: AudioBufferSourceNode;
   
   private activeSources: Set<AudioBufferSourceNode> = new Set();
@@ -70,6 +75,8 @@ export class AudioStreamer {
     this.gainNode = this.context.createGain();
     this.source = this.context.createBufferSource();
     this.gainNode.connect(this.context.destination);
+    this.speechGain = this.context.createGain();
+    this.speechGain.connect(this.gainNode);
     this.addPCM16 = this.addPCM16.bind(this);
     
     this.initSchedulerWorker();
@@ -98,6 +105,16 @@ export class AudioStreamer {
     return this.scheduledTime;
   }
 
+  setPlaybackRate(rate: number) {
+    this.playbackRate = Math.min(2, Math.max(0.5, rate));
+  }
+
+  // Muted speech keeps its timing but is neither heard nor metered
+  setSpeechMuted(muted: boolean) {
+    this.speechMuted = muted;
+    this.speechGain.gain.value = muted ? 0 : 1;
+  }
+
   setPadVolume(volume: number) {
     if (this.padGain) {
       this.padGain.gain.linearRampToValueAtTime(volume, this.context.currentTime + 0.5);
@@ -260,11 +277,12 @@ export class AudioStreamer {
       };
 
       source.buffer = audioBuffer;
-      source.connect(this.gainNode);
+      source.playbackRate.value = this.playbackRate;
+      source.connect(this.speechGain);
 
       const worklets = registeredWorklets.get(this.context);
 
-      if (worklets) {
+      if (worklets && !this.speechMuted) {
         Object.entries(worklets).forEach(([workletName, graph]) => {
           const { node, handlers } = graph;
           if (node) {
@@ -282,7 +300,7 @@ export class AudioStreamer {
       // Ensure we don't schedule in the past
       const startTime = Math.max(this.scheduledTime, this.context.currentTime);
       source.start(startTime);
-      this.scheduledTime = startTime + audioBuffer.duration;
+      this.scheduledTime = startTime + audioBuffer.duration / this.playbackRate;
     }
   }
 
@@ -0,0 +1,102 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Worker script to ensure timers keep firing even when the tab is in background
+const timerWorkerScript = `
+  const intervals = new Map();
+  self.onmessage = function(e) {
+    const data = e.data;
+    if (!data) return;
+    if (data.type === 'interval') {
+      intervals.set(data.id, setInterval(() => {
+        self.postMessage({ type: 'tick', id: data.id });
+      }, data.ms));
+    } else if (data.type === 'clear') {
+      clearInterval(intervals.get(data.id));
+      intervals.delete(data.id);
+    } else if (data.type === 'wait') {
+      setTimeout(() => {
+        self.postMessage({ type: 'wait_complete', id: data.id });
+      }, data.ms);
+    }
+  };
+`;
+
+/**
+ * Interval and timeout scheduling backed by a blob Worker, so polling and
+ * playback waits are not throttled when the tab is hidden. Falls back to the
+ * main thread timers when Workers are unavailable.
+ */
+export class BackgroundTimer {
+  private worker: Worker | null = null;
+  private callbacks: Map<string, () => void> = new Map();
+  private pendingWaits: Set<string> = new Set();
+  private fallbackIntervals: Map<string, ReturnType<typeof setInterval>> = new Map();
+
+  constructor() {
+    try {
+      const blob = new Blob([timerWorkerScript], { type: 'application/javascript' });
+      this.worker = new Worker(URL.createObjectURL(blob));
+      this.worker.onmessage = (e) => {
+        const { type, id } = e.data || {};
+        const callback = this.callbacks.get(id);
+        if (!callback) return;
+        if (type === 'wait_complete') {
+          this.callbacks.delete(id);
+          this.pendingWaits.delete(id);
+        }
+        callback();
+      };
+    } catch (e) {
+      console.warn('Background timer worker unavailable, using main thread timers', e);
+    }
+  }
+
+  setInterval(callback: () => void, ms: number): string {
+    const id = crypto.randomUUID();
+    if (!this.worker) {
+      this.fallbackIntervals.set(id, setInterval(callback, ms));
+      return id;
+    }
+    this.callbacks.set(id, callback);
+    this.worker.postMessage({ type: 'interval', id, ms });
+    return id;
+  }
+
+  clearInterval(id: string) {
+    const fallback = this.fallbackIntervals.get(id);
+    if (fallback) {
+      clearInterval(fallback);
+      this.fallbackIntervals.delete(id);
+      return;
+    }
+    this.callbacks.delete(id);
+    this.worker?.postMessage({ type: 'clear', id });
+  }
+
+  wait(ms: number): Promise<void> {
+    return new Promise<void>((resolve) => {
+      if (!this.worker) {
+        setTimeout(resolve, ms);
+        return;
+      }
+      const id = crypto.randomUUID();
+      this.callbacks.set(id, resolve);
+      this.pendingWaits.add(id);
+      this.worker.postMessage({ type: 'wait', id, ms });
+    });
+  }
+
+  terminate() {
+    this.fallbackIntervals.forEach(handle => clearInterval(handle));
+    this.fallbackIntervals.clear();
+    // Resolve pending waits so awaiting loops can observe shutdown and exit
+    this.pendingWaits.forEach(id => this.callbacks.get(id)?.());
+    this.pendingWaits.clear();
+    this.callbacks.clear();
+    this.worker?.terminate();
+    this.worker = null;
+  }
+}
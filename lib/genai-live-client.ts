@@ -12,13 +12,13 @@ import {
   LiveServerToolCall,
   LiveServerToolCallCancellation,
   Part,
-  Session,
   Content,
 } from '@google/genai';
 import EventEmitter from 'eventemitter3';
 import { DEFAULT_LIVE_API_MODEL } from './constants';
 import { difference } from 'lodash';
 import { base64ToArrayBuffer } from './utils';
+import { connectMockLive, LiveSession, MockScenarioId } from './mock-live';
 
 export interface StreamingLog {
   count?: number;
@@ -44,21 +44,60 @@ export interface LiveClientEventTypes {
   turncomplete: () => void;
   inputTranscription: (text: string, isFinal: boolean) => void;
   outputTranscription: (text: string, isFinal: boolean) => void;
+  // The server announced it will close the connection soon
+  goaway: (timeLeftMs: number | null) => void;
+  // The session dropped and is being reopened; `close` only follows if every attempt fails
+  reconnecting: (reason: string, attempt: number) => void;
+  // `resumed` is false when a fresh session had to be started
+  reconnected: (resumed: boolean) => void;
+  reconnectfailed: (reason: string) => void;
+  // A scheduled rollover replaced the session with a fresh one
+  rollover: () => void;
 }
 
+export type LiveClientStatus = 'connected' | 'disconnected' | 'connecting' | 'reconnecting';
+
+const MAX_RESUME_ATTEMPTS = 5;
+
+// Live API durations are strings such as "10s" or "1.5s"
+const parseDurationMs = (duration?: string) => {
+  const seconds = duration ? parseFloat(duration) : NaN;
+  return Number.isFinite(seconds) ? seconds * 1000 : null;
+};
+
 export class GenAILiveClient {
   public readonly model: string = DEFAULT_LIVE_API_MODEL;
 
   protected readonly client: GoogleGenAI;
-  protected session?: Session;
+  protected session?: LiveSession;
   public emitter = new EventEmitter<LiveClientEventTypes>();
 
-  private _status: 'connected' | 'disconnected' | 'connecting' = 'disconnected';
+  private _status: LiveClientStatus = 'disconnected';
+  // Bumped on every connect so late callbacks of a replaced session are ignored
+  private sessionGeneration = 0;
   public get status() {
     return this._status;
   }
 
-  constructor(apiKey: string, model?: string) {
+  // Sessions closed by the server are reopened with the last config, resuming
+  // from the latest handle so the model keeps its context
+  private config: LiveConnectConfig = {};
+  private resumptionHandle: string | null = null;
+  private autoReconnect = false;
+  private resuming: Promise<boolean> | null = null;
+  private goAwayTimer: ReturnType<typeof setTimeout> | null = null;
+  // Restart waiting for the turn in flight to complete
+  private pendingRestart: { reason: string; fresh: boolean; quiet: boolean } | null = null;
+  // Long sessions are periodically replaced by fresh ones, opened with the
+  // config `rolloverConfig` returns at that time
+  private rolloverMs: number | null = null;
+  private rolloverConfig: (() => LiveConnectConfig) | null = null;
+  private rolloverTimer: ReturnType<typeof setTimeout> | null = null;
+  // A turn was sent and the model has not completed it yet
+  private turnInFlight = false;
+
+  // Sessions are opened against the offline mock server when a scenario is given
+  constructor(apiKey: string, model?: string, private readonly mockScenario: MockScenarioId | null = null) {
     if (model) this.model = model;
 
     this.client = new GoogleGenAI({
@@ -83,16 +122,25 @@ export class GenAILiveClient {
   }
 
   public async connect(config: LiveConnectConfig): Promise<boolean> {
-    if (this._status === 'connected' || this._status === 'connecting') {
+    if (this._status !== 'disconnected') {
       return false;
     }
+    this.config = config;
+    this.resumptionHandle = null;
+    return this.open(false);
+  }
 
-    this._status = 'connecting';
+  private async open(resuming: boolean): Promise<boolean> {
+    this._status = resuming ? 'reconnecting' : 'connecting';
+    this.turnInFlight = false;
+    this.pendingRestart = null;
+    const generation = ++this.sessionGeneration;
+    const isCurrent = () => generation === this.sessionGeneration;
     const callbacks: LiveCallbacks = {
-      onopen: this.onOpen.bind(this),
-      onmessage: this.onMessage.bind(this),
-      onerror: this.onError.bind(this),
-      onclose: this.onClose.bind(this),
+      onopen: () => { if (isCurrent()) this.onOpen(); },
+      onmessage: message => { if (isCurrent()) this.onMessage(message); },
+      onerror: e => { if (isCurrent()) this.onError(e); },
+      onclose: e => { if (isCurrent()) this.onClose(e); },
     };
 
     let retries = 0;
@@ -100,15 +148,27 @@ export class GenAILiveClient {
 
     while (retries < maxRetries) {
       try {
-        this.session = await this.client.live.connect({
+        const params = {
           model: this.model,
           config: {
-            ...config,
+            ...this.config,
+            sessionResumption: { handle: this.resumptionHandle || undefined },
           },
           callbacks,
-        });
-        
+        };
+        const session = this.mockScenario
+          ? await connectMockLive(this.mockScenario, params)
+          : await this.client.live.connect(params);
+        // Disconnected while the session was being opened
+        if (!isCurrent()) {
+          session.close();
+          return false;
+        }
+
+        this.session = session;
         this._status = 'connected';
+        this.autoReconnect = true;
+        this.scheduleRollover();
         return true;
       } catch (e: any) {
         retries++;
@@ -120,6 +180,7 @@ export class GenAILiveClient {
           errorMsg.includes('503') || 
           e?.status === 503;
 
+        if (!isCurrent()) return false;
         if (isRetryable && retries < maxRetries) {
           const delay = 500 * Math.pow(2, retries); 
           console.warn(`GenAI Live API Connection Failed (${e.message}). Retrying ${retries}/${maxRetries} in ${delay}ms...`);
@@ -127,9 +188,14 @@ export class GenAILiveClient {
           continue;
         }
 
+        this.session = undefined;
+        // Failed resume attempts are reported by `resume` once it gives up
+        if (resuming) {
+          console.warn('Failed to reopen the GenAI Live session:', e);
+          return false;
+        }
         console.error('Fatal Error connecting to GenAI Live:', e);
         this._status = 'disconnected';
-        this.session = undefined;
         const errorEvent = new ErrorEvent('error', {
           error: e,
           message: e?.message || 'Failed to connect to Gemini Live service.',
@@ -142,7 +208,141 @@ export class GenAILiveClient {
     return false;
   }
 
+  public async reconnect(config: LiveConnectConfig): Promise<boolean> {
+    this.disconnect();
+    return this.connect(config);
+  }
+
+  /**
+   * Replaces an open session with a fresh one on `config` without reporting
+   * `close`, so whoever follows the connected state is not torn down. A
+   * client that is not connected yet is connected instead.
+   */
+  public async restart(reason: string, config: LiveConnectConfig): Promise<boolean> {
+    if (this._status === 'disconnected') return this.connect(config);
+    if (this._status === 'connecting') return false;
+    this.config = config;
+    return this.resume(reason, { fresh: true, quiet: true });
+  }
+
+  // Resolves once a reconnect in progress has settled
+  public async waitForReconnect(): Promise<boolean> {
+    if (this.resuming) return this.resuming;
+    return this._status === 'connected';
+  }
+
+  // Starts a fresh session every `afterMs`, between turns; null turns it off
+  public setRollover(afterMs: number | null, getConfig?: () => LiveConnectConfig) {
+    this.rolloverMs = afterMs;
+    this.rolloverConfig = getConfig || null;
+    if (this._status === 'connected') this.scheduleRollover();
+  }
+
+  private scheduleRollover() {
+    if (this.rolloverTimer) clearTimeout(this.rolloverTimer);
+    this.rolloverTimer = null;
+    if (!this.rolloverMs) return;
+    this.rolloverTimer = setTimeout(() => {
+      this.rolloverTimer = null;
+      if (this.rolloverConfig) this.config = this.rolloverConfig();
+      this.restartBetweenTurns({ reason: 'Scheduled session rollover', fresh: true, quiet: true });
+    }, this.rolloverMs);
+  }
+
+  private restartBetweenTurns(restart: { reason: string; fresh: boolean; quiet: boolean }) {
+    if (!this.turnInFlight) {
+      this.resume(restart.reason, restart);
+      return;
+    }
+    const pending = this.pendingRestart;
+    // A server-requested restart is never quiet, and a fresh one stays fresh
+    this.pendingRestart = pending ? {
+      reason: restart.quiet ? pending.reason : restart.reason,
+      fresh: pending.fresh || restart.fresh,
+      quiet: pending.quiet && restart.quiet,
+    } : restart;
+  }
+
+  /**
+   * Reopens the session. A `fresh` session drops the resumption handle so
+   * only the config carries over; a `quiet` one reports `rollover` instead
+   * of `reconnecting`/`reconnected` unless its first attempt fails.
+   */
+  private resume(reason: string, { fresh = false, quiet = false } = {}): Promise<boolean> {
+    if (this.resuming) return this.resuming;
+    this.clearGoAway();
+    if (this.rolloverTimer) clearTimeout(this.rolloverTimer);
+    this.rolloverTimer = null;
+    if (fresh) this.resumptionHandle = null;
+
+    // Late callbacks of the dropped session must not trigger another resume
+    this.sessionGeneration++;
+    this.session?.close();
+    this.session = undefined;
+    this._status = 'reconnecting';
+
+    this.resuming = (async () => {
+      for (let attempt = 1; attempt <= MAX_RESUME_ATTEMPTS; attempt++) {
+        if (!this.autoReconnect) return false;
+        const resumed = !!this.resumptionHandle;
+        const silent = quiet && attempt === 1;
+        this.log('client.reconnect', `${reason} (attempt ${attempt}/${MAX_RESUME_ATTEMPTS})`);
+        if (!silent) this.emitter.emit('reconnecting', reason, attempt);
+        if (await this.open(true)) {
+          if (silent) this.emitter.emit('rollover');
+          else this.emitter.emit('reconnected', resumed);
+          return true;
+        }
+        if (!this.autoReconnect) return false;
+        // The handle may have expired; later attempts start a fresh session
+        this.resumptionHandle = null;
+        this._status = 'reconnecting';
+        await new Promise(resolve => setTimeout(resolve, 1000 * 2 ** (attempt - 1)));
+      }
+
+      this.autoReconnect = false;
+      this._status = 'disconnected';
+      this.log('client.reconnect', 'Giving up');
+      this.emitter.emit('reconnectfailed', reason);
+      this.emitter.emit('close', new CloseEvent('close', { reason: `Could not reconnect: ${reason}` }));
+      return false;
+    })().finally(() => { this.resuming = null; });
+    return this.resuming;
+  }
+
+  private clearGoAway() {
+    if (this.goAwayTimer) clearTimeout(this.goAwayTimer);
+    this.goAwayTimer = null;
+    this.pendingRestart = null;
+  }
+
+  // Moves to a new session before the server closes this one, between turns
+  // when possible
+  private onGoAway(timeLeftMs: number | null) {
+    this.log('server.goAway', timeLeftMs === null ? 'closing soon' : `closing in ${Math.round(timeLeftMs)}ms`);
+    this.emitter.emit('goaway', timeLeftMs);
+    const reason = 'Server requested a new session';
+    this.restartBetweenTurns({ reason, fresh: false, quiet: false });
+    if (!this.pendingRestart || this.goAwayTimer) return;
+    this.goAwayTimer = setTimeout(() => {
+      const restart = this.pendingRestart;
+      this.resume(reason, { fresh: !!restart?.fresh });
+    }, Math.max(0, (timeLeftMs ?? 0) - 1000));
+  }
+
+  // Runs a restart that was waiting for the turn in flight to end
+  private runPendingRestart() {
+    const restart = this.pendingRestart;
+    if (restart) this.resume(restart.reason, restart);
+  }
+
   public disconnect() {
+    this.autoReconnect = false;
+    this.clearGoAway();
+    if (this.rolloverTimer) clearTimeout(this.rolloverTimer);
+    this.rolloverTimer = null;
+    // Abandons a session still being opened by a reconnect
+    if (this._status === 'reconnecting') this.sessionGeneration++;
     this.session?.close();
     this.session = undefined;
     this._status = 'disconnected';
@@ -165,6 +365,7 @@ export class GenAILiveClient {
     };
 
     this.session.sendClientContent({ turns: [content], turnComplete });
+    if (turnComplete) this.turnInFlight = true;
     this.log(`client.send`, parts);
   }
 
@@ -196,6 +397,13 @@ export class GenAILiveClient {
     this.log(`client.realtimeInput`, message);
   }
 
+  // Lets the server close the current utterance, e.g. when the microphone is muted
+  public endAudioStream() {
+    if (this._status !== 'connected' || !this.session) return;
+    this.session.sendRealtimeInput({ audioStreamEnd: true });
+    this.log('client.realtimeInput', 'audio stream end');
+  }
+
   public sendToolResponse(toolResponse: LiveClientToolResponse) {
     if (this._status !== 'connected' || !this.session) {
       this.emitter.emit(
@@ -221,6 +429,15 @@ export class GenAILiveClient {
       this.emitter.emit('setupcomplete');
       return;
     }
+    if (message.sessionResumptionUpdate) {
+      const { resumable, newHandle } = message.sessionResumptionUpdate;
+      if (resumable && newHandle) this.resumptionHandle = newHandle;
+      return;
+    }
+    if (message.goAway) {
+      this.onGoAway(parseDurationMs(message.goAway.timeLeft));
+      return;
+    }
     if (message.toolCall) {
       this.log('server.toolCall', message);
       this.emitter.emit('toolcall', message.toolCall);
@@ -235,8 +452,10 @@ export class GenAILiveClient {
     if (message.serverContent) {
       const { serverContent } = message;
       if (serverContent.interrupted) {
+        this.turnInFlight = false;
         this.log('receive.serverContent', 'interrupted');
         this.emitter.emit('interrupted');
+        this.runPendingRestart();
         return;
       }
 
@@ -289,8 +508,10 @@ export class GenAILiveClient {
       }
 
       if (serverContent.turnComplete) {
+        this.turnInFlight = false;
         this.log('server.send', 'turnComplete');
         this.emitter.emit('turncomplete');
+        this.runPendingRestart();
       }
     }
   }
@@ -310,7 +531,6 @@ export class GenAILiveClient {
   }
 
   protected onClose(e: CloseEvent) {
-    this._status = 'disconnected';
     let reason = e.reason || '';
     if (reason.toLowerCase().includes('error')) {
       const prelude = 'ERROR]';
@@ -324,6 +544,11 @@ export class GenAILiveClient {
       `server.${e.type}`,
       `disconnected ${reason ? `with reason: ${reason}` : ``}`
     );
+    if (this.autoReconnect) {
+      this.resume(reason || 'Connection closed');
+      return;
+    }
+    this._status = 'disconnected';
     this.emitter.emit('close', e);
   }
 
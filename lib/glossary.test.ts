@@ -0,0 +1,48 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { checkGlossary, createGlossaryEntry, GlossaryEntry, glossaryInstruction } from './glossary';
+
+const entry = (term: string, overrides: Partial<GlossaryEntry> = {}): GlossaryEntry => ({
+  ...createGlossaryEntry(term),
+  ...overrides,
+});
+
+describe('checkGlossary', () => {
+  const orbit = entry('Orbit', { doNotTranslate: true });
+
+  it('checks terms found as whole words only', () => {
+    expect(checkGlossary([orbit], 'The Orbit app is ready.', 'Handa na ang app.', 'Tagalog')).toEqual([
+      { term: 'Orbit', expected: 'Orbit' },
+    ]);
+    expect(checkGlossary([orbit], 'The orbital plan is ready.', 'Handa na ang plano.', 'Tagalog')).toEqual([]);
+  });
+
+  it('accepts the rendering only as a whole word', () => {
+    expect(checkGlossary([orbit], 'Open Orbit.', 'Buksan ang Orbit.', 'Tagalog')).toEqual([]);
+    expect(checkGlossary([orbit], 'Open Orbit.', 'Buksan ang Orbital.', 'Tagalog')).toHaveLength(1);
+  });
+
+  it('finds Latin terms next to Japanese particles', () => {
+    expect(checkGlossary([orbit], 'Open Orbit.', 'Orbitを開いてください。', 'Japanese')).toEqual([]);
+  });
+
+  it('matches Chinese and Japanese terms inside longer runs of text', () => {
+    const budget = entry('budget', { translations: { Chinese: '预算', Japanese: '予算' } });
+    expect(checkGlossary([budget], 'The budget is final.', '今年的预算已经确定。', 'Chinese')).toEqual([]);
+    expect(checkGlossary([budget], 'The budget is final.', '今年の費用は確定です。', 'Japanese')).toEqual([
+      { term: 'budget', expected: '予算' },
+    ]);
+  });
+});
+
+describe('glossaryInstruction', () => {
+  it('names the language it applies to in two-way prompts', () => {
+    const budget = entry('budget', { translations: { Japanese: '予算' } });
+    expect(glossaryInstruction([budget], 'Japanese', true)).toContain('WHEN SPEAKING [Japanese]');
+    expect(glossaryInstruction([budget], 'Japanese')).not.toContain('WHEN SPEAKING');
+    expect(glossaryInstruction([budget], 'English (US)', true)).toBe('');
+  });
+});
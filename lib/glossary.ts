@@ -0,0 +1,105 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { hashParagraph } from './transcript-delta';
+
+export interface GlossaryEntry {
+  id: string;
+  term: string;
+  // Preferred translation keyed by target language, as in SUPPORTED_LANGUAGES
+  translations: Record<string, string>;
+  // Keep the term as is in every language, e.g. product names
+  doNotTranslate: boolean;
+  // How to say the term, e.g. "OR-bits"
+  pronunciation: string;
+}
+
+export interface GlossaryViolation {
+  term: string;
+  expected: string;
+}
+
+const normalize = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+// Scripts written without spaces between words, where a term sits inside a longer run of letters
+const UNSPACED_SCRIPTS = ['Han', 'Hiragana', 'Katakana', 'Hangul', 'Thai', 'Lao', 'Khmer', 'Myanmar']
+  .map(script => `\\p{Script=${script}}`)
+  .join('');
+const WORD_CHAR = `(?![${UNSPACED_SCRIPTS}])[\\p{L}\\p{N}\\p{M}]`;
+
+const isWordChar = (char: string) => new RegExp(WORD_CHAR, 'u').test(char);
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whole words in space-delimited scripts; in CJK and other unspaced scripts
+// the phrase may appear anywhere
+const contains = (text: string, phrase: string) => {
+  const chars = Array.from(normalize(phrase));
+  if (chars.length === 0) return false;
+  const start = isWordChar(chars[0]) ? `(?<!${WORD_CHAR})` : '';
+  const end = isWordChar(chars[chars.length - 1]) ? `(?!${WORD_CHAR})` : '';
+  return new RegExp(start + escapeRegExp(chars.join('')) + end, 'u').test(normalize(text));
+};
+
+export const createGlossaryEntry = (term: string = ''): GlossaryEntry => ({
+  id: crypto.randomUUID(),
+  term,
+  translations: {},
+  doNotTranslate: false,
+  pronunciation: '',
+});
+
+// What the translation must contain for the term, or null if unconstrained
+export const expectedRendering = (entry: GlossaryEntry, language: string): string | null => {
+  if (entry.doNotTranslate) return entry.term;
+  const preferred = entry.translations[language]?.trim();
+  return preferred || null;
+};
+
+// Changes whenever a rule that applies to `language` does
+export const glossaryFingerprint = (entries: GlossaryEntry[], language: string) =>
+  hashParagraph(JSON.stringify(entries
+    .filter(entry => entry.term.trim())
+    .map(entry => [entry.term, expectedRendering(entry, language), entry.pronunciation.trim()])));
+
+/**
+ * Terminology section of the system instruction. Entries without a rule for
+ * the target language are only listed when they carry a pronunciation hint.
+ * Two-way prompts have one section per direction, named by `language`.
+ */
+export const glossaryInstruction = (entries: GlossaryEntry[], language: string, twoWay: boolean = false) => {
+  const lines = entries
+    .filter(entry => entry.term.trim())
+    .map(entry => {
+      const expected = expectedRendering(entry, language);
+      const rules: string[] = [];
+      if (entry.doNotTranslate) rules.push(`keep "${entry.term}" untranslated`);
+      else if (expected) rules.push(`always translate as "${expected}"`);
+      if (entry.pronunciation.trim()) rules.push(`pronounce it "${entry.pronunciation.trim()}"`);
+      return rules.length > 0 ? `- "${entry.term}": ${rules.join('; ')}.` : null;
+    })
+    .filter((line): line is string => !!line);
+
+  if (lines.length === 0) return '';
+  return `
+📖 TERMINOLOGY PROTOCOL${twoWay ? ` WHEN SPEAKING [${language}]` : ''} (MANDATORY):
+Whenever one of these terms appears in the input, follow its rule exactly.
+${lines.join('\n')}
+`;
+};
+
+/**
+ * Compares a finished translation with the glossary. Only terms present in
+ * the source text are checked.
+ */
+export const checkGlossary = (
+  entries: GlossaryEntry[],
+  sourceText: string,
+  translation: string,
+  language: string
+): GlossaryViolation[] =>
+  entries
+    .filter(entry => entry.term.trim() && contains(sourceText, entry.term))
+    .map(entry => ({ term: entry.term, expected: expectedRendering(entry, language) }))
+    .filter((v): v is GlossaryViolation => !!v.expected && !contains(translation, v.expected));
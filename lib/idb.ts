@@ -0,0 +1,68 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+const DB_NAME = 'orbits-translator';
+const DB_VERSION = 4;
+
+/**
+ * Object stores, all keyed out-of-line. Add new stores here and bump
+ * `DB_VERSION` so existing browsers run the upgrade.
+ */
+export type StoreName = 'bridge' | 'memory' | 'memory-audio' | 'outbox' | 'templates';
+const STORES: StoreName[] = ['bridge', 'memory', 'memory-audio', 'outbox', 'templates'];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      STORES.forEach(name => {
+        if (!db.objectStoreNames.contains(name)) db.createObjectStore(name);
+      });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  // Allow a later call to retry if opening failed (e.g. private mode)
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+const withStore = async <T>(
+  store: StoreName,
+  mode: IDBTransactionMode,
+  run: (objectStore: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(store, mode);
+    const request = run(tx.objectStore(store));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const idbGet = <T>(store: StoreName, key: IDBValidKey) =>
+  withStore<T | undefined>(store, 'readonly', s => s.get(key));
+
+export const idbGetAll = <T>(store: StoreName) =>
+  withStore<T[]>(store, 'readonly', s => s.getAll());
+
+export const idbSet = <T>(store: StoreName, key: IDBValidKey, value: T) =>
+  withStore(store, 'readwrite', s => s.put(value, key)).then(() => undefined);
+
+export const idbDelete = (store: StoreName, key: IDBValidKey) =>
+  withStore(store, 'readwrite', s => s.delete(key)).then(() => undefined);
+
+export const idbClear = (store: StoreName) =>
+  withStore(store, 'readwrite', s => s.clear()).then(() => undefined);
@@ -0,0 +1,61 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { condenseQueue } from './lag-policy';
+import { paragraphsOf, QueueItem } from './translation-queue';
+
+const source = { session_id: 's1', user_id: 'u1', source_language: 'en' };
+
+const item = (text: string, paragraphId: string, turnId: string): QueueItem => ({
+  text,
+  refData: source,
+  turnId,
+  paragraphId,
+});
+
+describe('condenseQueue', () => {
+  it('merges consecutive items and drops filler', () => {
+    const { queue, absorbed, dropped } = condenseQueue([
+      item('Good morning.', 'p1', 't1'),
+      { text: '(clears throat)', refData: null },
+      item('Today we review the plan.', 'p2', 't2'),
+    ], 400);
+
+    expect(queue.map(q => q.text)).toEqual(['Good morning. Today we review the plan.']);
+    expect(absorbed).toEqual([{ into: queue[0], turnIds: ['t2'] }]);
+    expect(dropped).toHaveLength(1);
+  });
+
+  it('joins Chinese, Japanese and Thai without a space', () => {
+    const merge = (a: string, b: string) => condenseQueue([item(a, 'p1', 't1'), item(b, 'p2', 't2')], 400).queue[0].text;
+
+    expect(merge('今天开会。', '我们讨论预算。')).toBe('今天开会。我们讨论预算。');
+    expect(merge('おはようございます。', '会議を始めます。')).toBe('おはようございます。会議を始めます。');
+    expect(merge('สวัสดีครับ', 'เริ่มประชุมกัน')).toBe('สวัสดีครับเริ่มประชุมกัน');
+    expect(merge('今天开会。', 'Budget first.')).toBe('今天开会。 Budget first.');
+  });
+
+  it('keeps the paragraphs folded into a merged item', () => {
+    const { queue } = condenseQueue([
+      item('Good morning.', 'p1', 't1'),
+      item('Thank you for joining.', 'p1', 't2'),
+      item('Today we review the plan.', 'p2', 't3'),
+      item('First, the budget.', 'p3', 't4'),
+    ], 400);
+
+    expect(queue).toHaveLength(1);
+    expect(queue[0].paragraphId).toBe('p1');
+    expect(paragraphsOf(queue[0])).toEqual(['p1', 'p2', 'p3']);
+  });
+
+  it('starts a new item at the length limit', () => {
+    const { queue } = condenseQueue([
+      item('Good morning.', 'p1', 't1'),
+      item('Today we review the plan.', 'p2', 't2'),
+    ], 30);
+
+    expect(queue.map(paragraphsOf)).toEqual([['p1'], ['p2']]);
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { joinText } from './segmenter';
+import { paragraphsOf, QueueItem } from './translation-queue';
+
+export type LagPolicy = 'speak-all' | 'skip' | 'condense' | 'speed-up';
+
+export interface LagPolicySettings {
+  policy: LagPolicy;
+  // How far the spoken output may fall behind before the policy kicks in
+  maxLagSeconds: number;
+  // Upper bound for the 'speed-up' policy
+  maxPlaybackRate: number;
+}
+
+export const DEFAULT_LAG_POLICY: LagPolicySettings = {
+  policy: 'speak-all',
+  maxLagSeconds: 30,
+  maxPlaybackRate: 1.3,
+};
+
+export const LAG_POLICY_LABELS: Record<LagPolicy, string> = {
+  'speak-all': 'Speak everything',
+  skip: 'Skip to latest',
+  condense: 'Merge pending segments',
+  'speed-up': 'Speed up playback',
+};
+
+const isFiller = (item: QueueItem) => !item.refData;
+
+/**
+ * Seconds the oldest unfinished item has been waiting, which is how far the
+ * spoken output trails the transcript.
+ */
+export const queueLagSeconds = (items: (QueueItem | null)[], now: number = Date.now()) => {
+  const oldest = items.reduce<number | null>((min, item) => {
+    if (!item?.enqueuedAt) return min;
+    return min === null ? item.enqueuedAt : Math.min(min, item.enqueuedAt);
+  }, null);
+  return oldest === null ? 0 : Math.max(0, (now - oldest) / 1000);
+};
+
+/**
+ * Drops items that waited longer than `maxLagSeconds`. When everything is
+ * stale the last paragraph is kept so the listener still hears where the
+ * meeting is now.
+ */
+export const skipStaleItems = (queue: QueueItem[], maxLagSeconds: number, now: number = Date.now()) => {
+  const isStale = (item: QueueItem) => !!item.enqueuedAt && now - item.enqueuedAt > maxLagSeconds * 1000;
+  if (!queue.some(isStale)) return { kept: queue, skipped: [] as QueueItem[] };
+
+  const lastParagraph = [...queue].reverse().find(item => !isFiller(item))?.paragraphId;
+  const keep = (item: QueueItem) =>
+    !isStale(item) || (!isFiller(item) && !!lastParagraph && item.paragraphId === lastParagraph);
+
+  return {
+    kept: queue.filter(keep),
+    skipped: queue.filter(item => !keep(item)),
+  };
+};
+
+/**
+ * Merges consecutive items of the same speaker and session into as few items
+ * as `maxChars` allows, dropping filler items. Each merged item keeps the
+ * turn and paragraph of its first part; `absorbed` lists the turns folded
+ * into it and `absorbedParagraphIds` the other paragraphs.
+ */
+export const condenseQueue = (queue: QueueItem[], maxChars: number) => {
+  const condensed: QueueItem[] = [];
+  const absorbed: { into: QueueItem; turnIds: string[] }[] = [];
+  const dropped: QueueItem[] = [];
+
+  queue.forEach(item => {
+    if (isFiller(item)) {
+      dropped.push(item);
+      return;
+    }
+    const last = condensed[condensed.length - 1];
+    const text = last && joinText(last.text, item.text);
+    const canMerge =
+      !!last &&
+      last.speaker === item.speaker &&
+      last.refData?.session_id === item.refData?.session_id &&
+      text.length <= maxChars;
+    if (!canMerge) {
+      condensed.push({ ...item });
+      return;
+    }
+
+    last.text = text;
+    last.refData = item.refData;
+    const paragraphs = paragraphsOf(item).filter(id => !paragraphsOf(last).includes(id));
+    if (paragraphs.length > 0) last.absorbedParagraphIds = [...(last.absorbedParagraphIds || []), ...paragraphs];
+    let entry = absorbed.find(a => a.into === last);
+    if (!entry) {
+      entry = { into: last, turnIds: [] };
+      absorbed.push(entry);
+    }
+    if (item.turnId) entry.turnIds.push(item.turnId);
+  });
+
+  return { queue: condensed, absorbed, dropped };
+};
+
+/**
+ * Ramps the playback rate from 1x at the lag threshold up to the configured
+ * maximum at twice the threshold.
+ */
+export const playbackRateForLag = (lagSeconds: number, settings: LagPolicySettings) => {
+  if (settings.policy !== 'speed-up' || lagSeconds <= settings.maxLagSeconds) return 1;
+  const over = (lagSeconds - settings.maxLagSeconds) / Math.max(1, settings.maxLagSeconds);
+  const rate = 1 + (settings.maxPlaybackRate - 1) * Math.min(1, over);
+  return Math.round(rate * 20) / 20;
+};
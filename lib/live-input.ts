@@ -0,0 +1,50 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { ActivityHandling, LiveConnectConfig } from '@google/genai';
+
+// Text from the transcript feed, or speech streamed to the model
+export type InputMode = 'transcript' | 'microphone' | 'audio-file';
+
+export const INPUT_MODE_LABELS: Record<InputMode, string> = {
+  transcript: 'Transcript feed',
+  microphone: 'Microphone',
+  'audio-file': 'Audio file',
+};
+
+export const DEFAULT_INPUT_MODE: InputMode = 'transcript';
+
+// The Live API takes 16 kHz 16-bit mono PCM
+export const INPUT_SAMPLE_RATE = 16000;
+export const INPUT_MIME_TYPE = `audio/pcm;rate=${INPUT_SAMPLE_RATE}`;
+
+export type LiveInputStatus = 'idle' | 'starting' | 'live' | 'ended' | 'error';
+
+export const isAudioInput = (mode: InputMode) => mode !== 'transcript';
+
+const SPEECH_INPUT_INSTRUCTION = `
+🎙 LIVE SPEECH INPUT:
+The input is spoken audio, not text. Interpret each utterance as soon as the speaker pauses.
+Ignore silence, coughs and background noise. Questions in the audio are translated, never answered.
+`;
+
+/**
+ * Audio input is transcribed, and new speech does not cut off the
+ * interpretation of the previous utterance.
+ */
+export const withLiveInput = (config: LiveConnectConfig, mode: InputMode): LiveConnectConfig => {
+  if (!isAudioInput(mode)) return config;
+  const instruction = typeof config.systemInstruction === 'string'
+    ? `${config.systemInstruction}\n${SPEECH_INPUT_INSTRUCTION}`
+    : config.systemInstruction;
+  return {
+    ...config,
+    systemInstruction: instruction,
+    inputAudioTranscription: {},
+    realtimeInputConfig: {
+      ...config.realtimeInputConfig,
+      activityHandling: ActivityHandling.NO_INTERRUPTION,
+    },
+  };
+};
@@ -0,0 +1,38 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { LiveConnectConfig } from '@google/genai';
+
+export interface LongSessionSettings {
+  // Let the server drop the oldest turns once the context grows too large
+  compression: boolean;
+  // Context size that starts a compression, and what it is cut down to
+  triggerTokens: number;
+  targetTokens: number;
+  // Start a fresh session this often, keeping only the system prompt; 0 never does
+  rolloverMinutes: number;
+}
+
+export const DEFAULT_LONG_SESSION: LongSessionSettings = {
+  compression: true,
+  triggerTokens: 24000,
+  targetTokens: 12000,
+  rolloverMinutes: 0,
+};
+
+export const ROLLOVER_OPTIONS = [0, 15, 30, 60, 120];
+
+export const withLongSession = (config: LiveConnectConfig, settings: LongSessionSettings): LiveConnectConfig => {
+  if (!settings.compression) return config;
+  return {
+    ...config,
+    contextWindowCompression: {
+      triggerTokens: String(settings.triggerTokens),
+      slidingWindow: { targetTokens: String(Math.min(settings.targetTokens, settings.triggerTokens)) },
+    },
+  };
+};
+
+export const rolloverMs = (settings: LongSessionSettings) =>
+  settings.rolloverMinutes > 0 ? settings.rolloverMinutes * 60 * 1000 : null;
@@ -0,0 +1,253 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {
+  ContentListUnion,
+  FunctionDeclaration,
+  LiveConnectParameters,
+  LiveSendClientContentParameters,
+  LiveSendRealtimeInputParameters,
+  LiveSendToolResponseParameters,
+  LiveServerMessage,
+  Session,
+} from '@google/genai';
+
+// The part of a Live session the client uses, so a mock can stand in for it
+export type LiveSession = Pick<Session, 'sendClientContent' | 'sendRealtimeInput' | 'sendToolResponse' | 'close'>;
+
+/**
+ * What the mock server does with a turn:
+ * - speak: streams the transcription and audio, then completes the turn
+ * - silent: never answers, the way a stalled session does
+ * - interrupt: stops halfway through and reports the turn interrupted
+ * - tool-call: calls the first enabled tool and speaks once it is answered
+ * - go-away: speaks, then announces the connection will close soon
+ * - drop: closes the connection halfway through the turn
+ */
+export type MockTurn = 'speak' | 'silent' | 'interrupt' | 'tool-call' | 'go-away' | 'drop';
+
+export interface MockScenario {
+  label: string;
+  description: string;
+  // Pause between streamed chunks; each chunk holds 100ms of audio
+  chunkDelayMs: number;
+  // What happens to the turn at `index`, counted from 0 in every session;
+  // `resumed` sessions continue an earlier one from its resumption handle
+  turn: (index: number, resumed: boolean) => MockTurn;
+}
+
+export type MockScenarioId = 'happy-path' | 'tool-calls' | 'interruptions' | 'flaky-audio' | 'server-restarts';
+
+export const MOCK_SCENARIOS: Record<MockScenarioId, MockScenario> = {
+  'happy-path': {
+    label: 'Happy path',
+    description: 'Every turn is spoken in full.',
+    chunkDelayMs: 50,
+    turn: () => 'speak',
+  },
+  'tool-calls': {
+    label: 'Tool calls',
+    description: 'Every third turn calls the first enabled tool before speaking.',
+    chunkDelayMs: 50,
+    turn: index => (index % 3 === 0 ? 'tool-call' : 'speak'),
+  },
+  interruptions: {
+    label: 'Interruptions',
+    description: 'Every third turn is interrupted halfway through.',
+    chunkDelayMs: 50,
+    turn: index => (index % 3 === 2 ? 'interrupt' : 'speak'),
+  },
+  'flaky-audio': {
+    label: 'Flaky audio',
+    description: 'Every other turn goes unanswered, so segments time out and are retried.',
+    chunkDelayMs: 50,
+    turn: index => (index % 2 === 1 ? 'silent' : 'speak'),
+  },
+  'server-restarts': {
+    label: 'Server restarts',
+    description: 'The server asks for a new session after 3 turns; resumed sessions drop the connection on their 3rd.',
+    chunkDelayMs: 50,
+    turn: (index, resumed) => (index !== 2 ? 'speak' : resumed ? 'drop' : 'go-away'),
+  },
+};
+
+// Output audio is 24 kHz 16-bit mono PCM
+const OUTPUT_SAMPLE_RATE = 24000;
+const CHUNK_SAMPLES = OUTPUT_SAMPLE_RATE / 10;
+const SECONDS_PER_WORD = 0.3;
+// Input audio is 16 kHz 16-bit PCM; this much unanswered speech is a turn of its own
+const INPUT_BYTES_PER_TURN = 16000 * 2 * 4;
+
+const message = (fields: Partial<LiveServerMessage>) => Object.assign(new LiveServerMessage(), fields);
+
+const textOf = (turns?: ContentListUnion): string => {
+  if (!turns) return '';
+  if (typeof turns === 'string') return turns;
+  if (Array.isArray(turns)) return turns.map(turn => textOf(turn as ContentListUnion)).join(' ');
+  if ('parts' in turns) return (turns.parts || []).map(part => part.text || '').join(' ');
+  return 'text' in turns ? turns.text || '' : '';
+};
+
+// A quiet tone, so playback can be heard and measured
+const toneChunk = (index: number) => {
+  const samples = new Int16Array(CHUNK_SAMPLES);
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = Math.round(Math.sin(2 * Math.PI * 220 * (index * CHUNK_SAMPLES + i) / OUTPUT_SAMPLE_RATE) * 2000);
+  }
+  let binary = '';
+  new Uint8Array(samples.buffer).forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary);
+};
+
+/**
+ * An in-process stand-in for a Live API session. It answers with the same
+ * `LiveServerMessage` shapes as the real endpoint, following a scripted
+ * scenario, so the app runs offline and deterministically.
+ */
+class MockLiveSession implements LiveSession {
+  private closed = false;
+  private turnCount = 0;
+  private handleCount = 0;
+  // Turns are answered one at a time, in the order they were sent
+  private queue: Promise<void> = Promise.resolve();
+  private timers = new Set<ReturnType<typeof setTimeout>>();
+  private toolResponses = new Map<string, () => void>();
+  private inputBytes = 0;
+  private utteranceCount = 0;
+
+  constructor(private scenario: MockScenario, private params: LiveConnectParameters) {}
+
+  open() {
+    this.params.callbacks.onopen?.();
+    // Turns sent right away are answered after the setup completes
+    this.queue = this.wait(0).then(() => this.emit({ setupComplete: {} }));
+  }
+
+  sendClientContent(params: LiveSendClientContentParameters) {
+    if (params.turnComplete === false) return;
+    const text = textOf(params.turns);
+    this.enqueue(() => this.respond(text));
+  }
+
+  sendRealtimeInput(params: LiveSendRealtimeInputParameters) {
+    const media = params.media ?? params.audio;
+    if (media && 'data' in media && media.data) this.inputBytes += media.data.length * 3 / 4;
+    if (params.audioStreamEnd || this.inputBytes >= INPUT_BYTES_PER_TURN) {
+      if (this.inputBytes === 0) return;
+      this.inputBytes = 0;
+      const utterance = `Mock utterance ${++this.utteranceCount}`;
+      this.enqueue(async () => {
+        this.emit({ serverContent: { inputTranscription: { text: utterance } } });
+        await this.respond(utterance);
+      });
+    }
+  }
+
+  sendToolResponse(params: LiveSendToolResponseParameters) {
+    const responses = Array.isArray(params.functionResponses) ? params.functionResponses : [params.functionResponses];
+    responses.forEach(response => {
+      const resolve = response.id ? this.toolResponses.get(response.id) : undefined;
+      if (!resolve) return;
+      this.toolResponses.delete(response.id!);
+      resolve();
+    });
+  }
+
+  close() {
+    if (this.closed) return;
+    this.closed = true;
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+    this.toolResponses.clear();
+    this.params.callbacks.onclose?.(new CloseEvent('close', { reason: 'Mock session closed', wasClean: true }));
+  }
+
+  private enqueue(task: () => Promise<void>) {
+    this.queue = this.queue.then(() => (this.closed ? undefined : task())).catch(e => {
+      console.warn('Mock Live session failed to answer:', e);
+    });
+  }
+
+  private emit(fields: Partial<LiveServerMessage>) {
+    if (!this.closed) this.params.callbacks.onmessage(message(fields));
+  }
+
+  private schedule(callback: () => void, ms: number) {
+    const timer = setTimeout(() => {
+      this.timers.delete(timer);
+      callback();
+    }, ms);
+    this.timers.add(timer);
+  }
+
+  private wait(ms: number) {
+    return new Promise<void>(resolve => this.schedule(resolve, ms));
+  }
+
+  // The "translation": the input without style tags, marked with the target language
+  private translate(text: string) {
+    const instruction = this.params.config?.systemInstruction;
+    const language = typeof instruction === 'string' ? /Speak in \[([^\]]+)\]/.exec(instruction)?.[1] : undefined;
+    const spoken = text.replace(/\([^)]*\)/g, ' ').replace(/\s+/g, ' ').trim();
+    return `${language ? `[${language}] ` : ''}${spoken}`;
+  }
+
+  private async respond(text: string) {
+    const turn = this.scenario.turn(this.turnCount++, !!this.params.config?.sessionResumption?.handle);
+    if (turn === 'silent') return;
+
+    if (turn === 'tool-call') {
+      const declaration = this.params.config?.tools
+        ?.flatMap(tool => ('functionDeclarations' in tool && tool.functionDeclarations) || [])
+        .find((d): d is FunctionDeclaration => !!d?.name);
+      if (declaration) {
+        const id = `mock-call-${crypto.randomUUID()}`;
+        const answered = new Promise<void>(resolve => this.toolResponses.set(id, resolve));
+        this.emit({ toolCall: { functionCalls: [{ id, name: declaration.name, args: {} }] } });
+        await answered;
+      }
+    }
+
+    const words = this.translate(text).split(' ').filter(Boolean);
+    const chunks = Math.max(1, Math.round(words.length * SECONDS_PER_WORD * 10));
+    const stopAt = turn === 'interrupt' || turn === 'drop' ? Math.ceil(chunks / 2) : chunks;
+    for (let i = 0; i < stopAt; i++) {
+      if (this.closed) return;
+      // Words are transcribed as the audio carrying them goes out
+      const from = Math.floor(i * words.length / chunks);
+      const to = Math.floor((i + 1) * words.length / chunks);
+      const transcript = words.slice(from, to).join(' ');
+      this.emit({
+        serverContent: {
+          modelTurn: { parts: [{ inlineData: { mimeType: `audio/pcm;rate=${OUTPUT_SAMPLE_RATE}`, data: toneChunk(i) } }] },
+          ...(transcript ? { outputTranscription: { text: `${from > 0 ? ' ' : ''}${transcript}` } } : {}),
+        },
+      });
+      await this.wait(this.scenario.chunkDelayMs);
+    }
+
+    if (turn === 'drop') {
+      this.closed = true;
+      this.timers.forEach(timer => clearTimeout(timer));
+      this.timers.clear();
+      this.params.callbacks.onclose?.(new CloseEvent('close', { reason: 'Mock connection dropped', wasClean: false }));
+      return;
+    }
+    if (turn === 'interrupt') {
+      this.emit({ serverContent: { interrupted: true } });
+      return;
+    }
+
+    this.emit({ serverContent: { turnComplete: true } });
+    this.emit({ sessionResumptionUpdate: { resumable: true, newHandle: `mock-handle-${++this.handleCount}` } });
+    if (turn === 'go-away') this.emit({ goAway: { timeLeft: '2s' } });
+  }
+}
+
+// Opens a mock session the way `GoogleGenAI.live.connect` opens a real one
+export const connectMockLive = async (scenarioId: MockScenarioId, params: LiveConnectParameters): Promise<LiveSession> => {
+  const session = new MockLiveSession(MOCK_SCENARIOS[scenarioId], params);
+  session.open();
+  return session;
+};
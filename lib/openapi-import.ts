@@ -0,0 +1,424 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { FunctionCall } from './state';
+import { HTTP_TOOL_METHODS, HttpToolExecutor, HttpToolMethod } from './tool-executors';
+import { isParameterName, validateFunctionName, validateParameters } from './tool-schema';
+
+type JsonObject = Record<string, unknown>;
+
+// A parsed document; only `paths` is known to be an object
+export type OpenApiDocument = JsonObject & { paths: JsonObject };
+
+// A schema converted to the shape the Live API takes for parameters
+type ConvertedSchema = {
+  type?: string;
+  description?: string;
+  nullable?: boolean;
+  format?: string;
+  enum?: string[];
+  minimum?: number;
+  maximum?: number;
+  minItems?: string;
+  maxItems?: string;
+  minLength?: string;
+  maxLength?: string;
+  pattern?: string;
+  items?: ConvertedSchema;
+  properties?: Record<string, ConvertedSchema>;
+  required?: string[];
+  anyOf?: ConvertedSchema[];
+};
+
+export interface OpenApiOperation {
+  // `METHOD /path`, unique within the document
+  key: string;
+  method: HttpToolMethod;
+  path: string;
+  summary: string;
+  deprecated: boolean;
+  // The declaration, bound to an HTTP executor for the operation
+  tool: FunctionCall;
+  // Parts of the operation that could not be carried over
+  warnings: string[];
+}
+
+// Nested or recursive schemas are cut off below this depth
+const MAX_SCHEMA_DEPTH = 8;
+
+const isPlainObject = (value: unknown): value is JsonObject =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const asObject = (value: unknown): JsonObject => (isPlainObject(value) ? value : {});
+const asArray = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+const asString = (value: unknown): string | undefined => (typeof value === 'string' ? value : undefined);
+
+/**
+ * Reads an OpenAPI 3 or Swagger 2 document. Only JSON is supported; throws
+ * when the text is not a document with paths.
+ */
+export const parseOpenApi = (text: string): OpenApiDocument => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error(/^\s*[{[]/.test(text)
+      ? 'The document is not valid JSON.'
+      : 'Only JSON documents are supported; convert YAML specs to JSON first.');
+  }
+  const doc = asObject(parsed);
+  const version = String(doc.openapi ?? doc.swagger ?? '');
+  if (!/^(2|3)\./.test(version)) throw new Error('Not an OpenAPI 3 or Swagger 2 document.');
+  const { paths } = doc;
+  if (!isPlainObject(paths) || Object.keys(paths).length === 0) {
+    throw new Error('The document does not describe any paths.');
+  }
+  return { ...doc, paths };
+};
+
+const isSwagger2 = (doc: OpenApiDocument) => String(doc.swagger ?? '').startsWith('2.');
+
+/**
+ * The API's address from the document's first server, resolved against the
+ * address the document was loaded from. Empty when neither says.
+ */
+export const defaultBaseUrl = (doc: OpenApiDocument, sourceUrl?: string): string => {
+  let base = '';
+  if (isSwagger2(doc)) {
+    const scheme = asString(asArray(doc.schemes)[0]) || 'https';
+    const basePath = asString(doc.basePath) || '';
+    const host = asString(doc.host);
+    base = host ? `${scheme}://${host}${basePath}` : basePath;
+  } else {
+    const server = asObject(asArray(doc.servers)[0]);
+    const url = asString(server.url);
+    if (url) {
+      const variables = asObject(server.variables);
+      base = url.replace(/\{([^}]+)\}/g, (match, name: string) =>
+        asString(asObject(variables[name]).default) ?? match);
+    }
+  }
+  if (sourceUrl) {
+    try {
+      base = new URL(base || '/', sourceUrl).href;
+    } catch {
+      // Not a URL; keep the server as written
+    }
+  }
+  return base.replace(/\/+$/, '');
+};
+
+const resolvePointer = (doc: OpenApiDocument, ref: string): unknown => {
+  if (!ref.startsWith('#/')) return undefined;
+  return ref
+    .slice(2)
+    .split('/')
+    .map(part => decodeURIComponent(part).replace(/~1/g, '/').replace(/~0/g, '~'))
+    .reduce<unknown>((node, part) => (Array.isArray(node) ? node[Number(part)] : asObject(node)[part]), doc);
+};
+
+class SchemaConverter {
+  private refs: string[] = [];
+
+  constructor(
+    private doc: OpenApiDocument,
+    private warnings: string[]
+  ) {}
+
+  // Follows `$ref`s within the document; other references resolve to undefined
+  resolve(node: unknown): unknown {
+    let seen = 0;
+    while (isPlainObject(node) && typeof node.$ref === 'string') {
+      const target = resolvePointer(this.doc, node.$ref);
+      if (target === undefined) {
+        this.warnings.push(`Could not resolve "${node.$ref}".`);
+        return undefined;
+      }
+      if (++seen > MAX_SCHEMA_DEPTH) return undefined;
+      node = target;
+    }
+    return node;
+  }
+
+  convert(schema: unknown, at: string, depth = 0): ConvertedSchema {
+    const ref = isPlainObject(schema) ? asString(schema.$ref) ?? null : null;
+    if (ref && this.refs.includes(ref)) {
+      this.warnings.push(`${at}: recursive schema "${ref}" is declared as a plain OBJECT.`);
+      return { type: 'OBJECT' };
+    }
+    if (depth > MAX_SCHEMA_DEPTH) {
+      this.warnings.push(`${at}: nested too deeply; declared as a plain OBJECT.`);
+      return { type: 'OBJECT' };
+    }
+    if (ref) this.refs.push(ref);
+    try {
+      return this.convertResolved(this.resolve(schema), at, depth);
+    } finally {
+      if (ref) this.refs.pop();
+    }
+  }
+
+  private convertResolved(schema: unknown, at: string, depth: number): ConvertedSchema {
+    if (!isPlainObject(schema)) return { type: 'STRING' };
+    const result: ConvertedSchema = {};
+    const description = asString(schema.description) || asString(schema.title);
+    if (description) result.description = description;
+
+    if (Array.isArray(schema.allOf)) {
+      const parts = schema.allOf.map((part, i) => this.convert(part, `${at}.allOf[${i}]`, depth + 1));
+      const objects = parts.filter(part => part.type === 'OBJECT');
+      if (objects.length === parts.length) {
+        const merged = this.convertResolved({ ...schema, allOf: undefined, type: 'object' }, at, depth);
+        objects.forEach(part => {
+          merged.properties = { ...part.properties, ...merged.properties };
+          merged.required = [...new Set([...(merged.required || []), ...(part.required || [])])];
+        });
+        if (!merged.required?.length) delete merged.required;
+        return merged;
+      }
+      return { ...(parts[0] ?? { type: 'STRING' }), ...result };
+    }
+
+    const options = schema.oneOf ?? schema.anyOf;
+    if (Array.isArray(options)) {
+      const converted = options
+        .filter(option => asObject(this.resolve(option)).type !== 'null')
+        .map((option, i) => this.convert(option, `${at}.anyOf[${i}]`, depth + 1));
+      if (converted.length < options.length) result.nullable = true;
+      if (converted.length === 1) return { ...converted[0], ...result };
+      if (converted.length > 1) return { ...result, anyOf: converted };
+    }
+
+    let types = (Array.isArray(schema.type) ? schema.type : [schema.type])
+      .filter((type): type is string => typeof type === 'string' && type !== '');
+    if (types.includes('null') || schema.nullable === true || schema['x-nullable'] === true) result.nullable = true;
+    types = types.filter(type => type !== 'null');
+    if (types.length > 1) {
+      return {
+        ...result,
+        anyOf: types.map(type => this.convertResolved({ ...schema, type, description: undefined }, at, depth)),
+      };
+    }
+    const type = types[0]
+      ?? (schema.properties ? 'object' : schema.items ? 'array' : schema.enum ? 'string' : undefined);
+    const format = asString(schema.format);
+    const count = (value: unknown) => (Number.isInteger(value) ? String(value) : undefined);
+
+    switch (type) {
+      case 'integer':
+      case 'number':
+        result.type = type.toUpperCase();
+        if (format && ['int32', 'int64', 'float', 'double'].includes(format)) result.format = format;
+        if (typeof schema.minimum === 'number') result.minimum = schema.minimum;
+        if (typeof schema.maximum === 'number') result.maximum = schema.maximum;
+        // Only strings can be enumerated, so the allowed numbers go in the description
+        if (Array.isArray(schema.enum)) {
+          result.description = [result.description, `One of ${schema.enum.join(', ')}.`].filter(Boolean).join(' ');
+        }
+        break;
+      case 'boolean':
+        result.type = 'BOOLEAN';
+        break;
+      case 'array':
+        result.type = 'ARRAY';
+        result.items = schema.items ? this.convert(schema.items, `${at}.items`, depth + 1) : { type: 'STRING' };
+        if (count(schema.minItems)) result.minItems = count(schema.minItems);
+        if (count(schema.maxItems)) result.maxItems = count(schema.maxItems);
+        break;
+      case 'object': {
+        result.type = 'OBJECT';
+        const properties: Record<string, ConvertedSchema> = {};
+        Object.entries(asObject(schema.properties)).forEach(([name, property]) => {
+          if (!isParameterName(name)) {
+            this.warnings.push(`${at}.${name}: not a valid parameter name; left out.`);
+            return;
+          }
+          if (asObject(this.resolve(property)).readOnly === true) return;
+          properties[name] = this.convert(property, `${at}.${name}`, depth + 1);
+        });
+        result.properties = properties;
+        const required = asArray(schema.required)
+          .filter((name): name is string => typeof name === 'string' && name in properties);
+        if (required.length > 0) result.required = required;
+        break;
+      }
+      default:
+        if (type !== undefined && type !== 'string') {
+          this.warnings.push(`${at}: type "${type}" is declared as STRING.`);
+        }
+        result.type = 'STRING';
+        if (Array.isArray(schema.enum)) {
+          const values = schema.enum.filter(value => value !== null).map(String);
+          if (values.length > 0) result.enum = values;
+        }
+        if (format && ['date-time', 'enum'].includes(format)) result.format = format;
+        if (count(schema.minLength)) result.minLength = count(schema.minLength);
+        if (count(schema.maxLength)) result.maxLength = count(schema.maxLength);
+        if (typeof schema.pattern === 'string') result.pattern = schema.pattern;
+    }
+    return result;
+  }
+}
+
+// Operation ids may contain characters function names cannot
+const toFunctionName = (raw: string) => {
+  let name = raw
+    .replace(/[{}]/g, '')
+    .replace(/[^a-zA-Z0-9_.:-]+/g, '_')
+    .replace(/_+/g, '_')
+    .replace(/^[_.:-]+|[_.:-]+$/g, '');
+  if (!/^[a-zA-Z_]/.test(name)) name = `op_${name}`;
+  return name.slice(0, 64);
+};
+
+const joinUrl = (baseUrl: string, path: string) =>
+  baseUrl ? `${baseUrl.replace(/\/+$/, '')}/${path.replace(/^\/+/, '')}` : path;
+
+const jsonMediaType = (content: JsonObject) =>
+  Object.keys(content).find(type => /^application\/(.+\+)?json\b/.test(type)) ?? Object.keys(content).find(type => type === '*/*');
+
+/**
+ * Every operation in the document as a tool whose parameters collect the
+ * operation's path and query parameters and its JSON body, answered by an
+ * HTTP executor that calls `baseUrl` + the operation's path.
+ */
+export const listOperations = (doc: OpenApiDocument, baseUrl: string): OpenApiOperation[] => {
+  const operations: OpenApiOperation[] = [];
+  const names = new Set<string>();
+  const swagger2 = isSwagger2(doc);
+
+  Object.entries(doc.paths).forEach(([path, rawItem]) => {
+    const warnings: string[] = [];
+    const converter = new SchemaConverter(doc, warnings);
+    const item = converter.resolve(rawItem);
+    if (!isPlainObject(item)) return;
+
+    HTTP_TOOL_METHODS.forEach(method => {
+      const operation = item[method.toLowerCase()];
+      if (!isPlainObject(operation)) return;
+      const opWarnings = [...warnings];
+      const ops = new SchemaConverter(doc, opWarnings);
+
+      // Operation parameters override path-level ones with the same name and location
+      const parameters = new Map<string, JsonObject>();
+      [...asArray(item.parameters), ...asArray(operation.parameters)]
+        .map(parameter => ops.resolve(parameter))
+        .filter(isPlainObject)
+        .forEach(parameter => parameters.set(`${parameter.in}:${parameter.name}`, parameter));
+
+      const properties: Record<string, ConvertedSchema> = {};
+      const required: string[] = [];
+      const queryParams: string[] = [];
+      let body: { schema: unknown; description?: string; required: boolean } | null = null;
+
+      for (const parameter of parameters.values()) {
+        const name = String(parameter.name ?? '');
+        const location = parameter.in;
+        if (location === 'body') {
+          body = { schema: parameter.schema, description: asString(parameter.description), required: !!parameter.required };
+          continue;
+        }
+        if (location !== 'path' && location !== 'query') {
+          opWarnings.push(`Parameter "${name}" (in ${location}) is not supported; add fixed values under the executor headers.`);
+          continue;
+        }
+        if (!isParameterName(name)) {
+          opWarnings.push(location === 'path'
+            ? `Path parameter "${name}" is not a valid parameter name; calls will fail until the URL is edited.`
+            : `Query parameter "${name}" is not a valid parameter name; left out.`);
+          continue;
+        }
+        // Swagger 2 describes the type on the parameter itself
+        const property = ops.convert(swagger2 ? parameter : parameter.schema, name);
+        const description = asString(parameter.description);
+        if (description) property.description = description;
+        properties[name] = property;
+        if (location === 'path' || parameter.required) required.push(name);
+        if (location === 'query') queryParams.push(name);
+      }
+
+      const requestBody = ops.resolve(operation.requestBody);
+      if (isPlainObject(requestBody)) {
+        const content = asObject(requestBody.content);
+        const mediaType = jsonMediaType(content);
+        if (mediaType) {
+          body = {
+            schema: asObject(content[mediaType]).schema,
+            description: asString(requestBody.description),
+            required: !!requestBody.required,
+          };
+        } else {
+          opWarnings.push(`Only JSON request bodies are supported (${Object.keys(content).join(', ')}).`);
+        }
+      }
+
+      let bodyParam: string | undefined;
+      if (body) {
+        const { schema, description, required: bodyRequired } = body;
+        if (method === 'GET' || method === 'DELETE') {
+          opWarnings.push(`${method} requests send their arguments as query parameters, not as a body.`);
+        }
+        const converted = ops.convert(schema, 'body');
+        const fields = converted.type === 'OBJECT' ? Object.keys(converted.properties || {}) : [];
+        if (fields.length > 0 && !fields.some(field => field in properties) && !converted.nullable) {
+          // The body's fields become top-level arguments, sent back as the body
+          Object.assign(properties, converted.properties);
+          if (bodyRequired) required.push(...(converted.required || []));
+        } else {
+          bodyParam = 'body' in properties ? 'request_body' : 'body';
+          properties[bodyParam] = description ? { ...converted, description } : converted;
+          if (bodyRequired) required.push(bodyParam);
+        }
+      }
+
+      const base = toFunctionName(asString(operation.operationId) || `${method.toLowerCase()}_${path}`);
+      let name = base;
+      for (let counter = 2; names.has(name); counter++) name = `${base.slice(0, 60)}_${counter}`;
+      names.add(name);
+
+      const summary = String(operation.summary || '').trim();
+      const details = String(operation.description || '').trim();
+      const description = [summary, details !== summary ? details : '']
+        .filter(Boolean)
+        .join('\n\n') || `${method} ${path}`;
+
+      const executor: HttpToolExecutor = {
+        kind: 'http',
+        url: joinUrl(baseUrl, path),
+        method,
+        headers: {},
+        ...(queryParams.length > 0 ? { queryParams } : {}),
+        ...(bodyParam ? { bodyParam } : {}),
+      };
+      // Behavior is left unset, so the model waits for the operation's result
+      const tool: FunctionCall = {
+        name,
+        description,
+        parameters: {
+          type: 'OBJECT',
+          properties,
+          ...(required.length > 0 ? { required: [...new Set(required)] } : {}),
+        },
+        isEnabled: true,
+        executor,
+      };
+
+      const nameError = validateFunctionName(name);
+      if (nameError) opWarnings.push(nameError);
+      validateParameters(tool.parameters).forEach(issue => opWarnings.push(`${issue.path}: ${issue.message}`));
+
+      operations.push({
+        key: `${method} ${path}`,
+        method,
+        path,
+        summary: summary || details.split('\n')[0] || '',
+        deprecated: operation.deprecated === true,
+        tool,
+        warnings: [...new Set(opWarnings)],
+      });
+    });
+  });
+
+  return operations;
+};
@@ -0,0 +1,101 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SEGMENTATION, estimateSpeechSeconds, localeForLanguage, segmentParagraph, SegmenterOptions } from './segmenter';
+
+const options = (overrides: Partial<SegmenterOptions> = {}): SegmenterOptions => ({
+  ...DEFAULT_SEGMENTATION,
+  speechRate: 1,
+  ...overrides,
+});
+
+describe('segmentParagraph', () => {
+  it('splits mixed Tagalog and English into sentences', () => {
+    const paragraph = 'Magandang umaga po sa inyong lahat! Let us start the meeting. Handa na ba kayo? Okay, tuloy tayo.';
+    expect(segmentParagraph(paragraph, options({ mode: 'sentence', locale: localeForLanguage('Taglish (Philippines)') })))
+      .toEqual([
+        'Magandang umaga po sa inyong lahat!',
+        'Let us start the meeting.',
+        'Handa na ba kayo?',
+        'Okay, tuloy tayo.',
+      ]);
+  });
+
+  it('keeps a paragraph whole in newline mode while it fits', () => {
+    const paragraph = 'Salamat po. See you next week.';
+    expect(segmentParagraph(paragraph, options({ locale: 'fil' }))).toEqual([paragraph]);
+  });
+
+  it('cuts long paragraphs into chunks within the length limit', () => {
+    const sentence = 'Ang proyekto ay nasa schedule pa rin at walang problema sa budget. ';
+    const paragraph = sentence.repeat(8).trim();
+    const chunks = segmentParagraph(paragraph, options({ maxChars: 150, locale: 'fil' }));
+
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.forEach(chunk => expect(chunk.length).toBeLessThanOrEqual(150));
+    // Chunks end on sentence boundaries and nothing is lost
+    chunks.forEach(chunk => expect(chunk).toMatch(/budget\.$/));
+    expect(chunks.join(' ')).toBe(paragraph);
+  });
+
+  it('splits a sentence longer than the limit at clauses, then at words', () => {
+    const paragraph = 'First we review the numbers, then we look at the risks, and finally we agree on the next steps for the team';
+    const chunks = segmentParagraph(paragraph, options({ maxChars: 40, locale: 'en' }));
+
+    chunks.forEach(chunk => expect(chunk.length).toBeLessThanOrEqual(40));
+    expect(chunks[0]).toBe('First we review the numbers,');
+    expect(chunks.join(' ').split(/\s+/)).toEqual(paragraph.split(/\s+/));
+  });
+
+  it('limits chunks by their estimated speaking time', () => {
+    const paragraph = 'One short sentence. Another short sentence. A third short sentence.';
+    const chunks = segmentParagraph(paragraph, options({ maxSeconds: 2, locale: 'en' }));
+
+    expect(chunks).toEqual(['One short sentence.', 'Another short sentence.', 'A third short sentence.']);
+    chunks.forEach(chunk => expect(estimateSpeechSeconds(chunk)).toBeLessThanOrEqual(2));
+  });
+
+  it('splits Chinese and Japanese at their full stops without adding spaces', () => {
+    expect(segmentParagraph('今天开会。我们讨论预算！有问题吗？', options({ mode: 'sentence', locale: 'zh' })))
+      .toEqual(['今天开会。', '我们讨论预算！', '有问题吗？']);
+    expect(segmentParagraph('おはようございます。会議を始めます。', options({ mode: 'sentence', locale: 'ja' })))
+      .toEqual(['おはようございます。', '会議を始めます。']);
+  });
+
+  it('rejoins CJK pieces without spaces when packing them', () => {
+    const paragraph = '我们今天讨论预算。'.repeat(10);
+    const chunks = segmentParagraph(paragraph, options({ maxChars: 40, locale: 'zh' }));
+
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.forEach(chunk => {
+      expect(chunk.length).toBeLessThanOrEqual(40);
+      expect(chunk).not.toMatch(/\s/);
+    });
+    expect(chunks.join('')).toBe(paragraph);
+  });
+
+  it('splits Arabic at the Arabic question mark and full stop', () => {
+    expect(segmentParagraph('هل أنتم مستعدون؟ نبدأ الاجتماع الآن.', options({ mode: 'sentence', locale: 'ar' })))
+      .toEqual(['هل أنتم مستعدون؟', 'نبدأ الاجتماع الآن.']);
+  });
+
+  it('splits long Arabic sentences at the Arabic comma', () => {
+    const paragraph = 'نراجع الميزانية اليوم، ثم نناقش الجدول الزمني، وبعد ذلك نوزع المهام على الفريق';
+    const chunks = segmentParagraph(paragraph, options({ maxChars: 40, locale: 'ar' }));
+
+    expect(chunks[0]).toBe('نراجع الميزانية اليوم،');
+    chunks.forEach(chunk => expect(chunk.length).toBeLessThanOrEqual(40));
+  });
+
+  it('splits Hebrew sentences', () => {
+    expect(segmentParagraph('בוקר טוב לכולם. האם אתם מוכנים? נתחיל!', options({ mode: 'sentence', locale: 'he' })))
+      .toEqual(['בוקר טוב לכולם.', 'האם אתם מוכנים?', 'נתחיל!']);
+  });
+
+  it('speaks a speaker-like prefix once, as part of the text', () => {
+    const chunks = segmentParagraph('Note: the budget is final. The schedule is not.', options({ mode: 'sentence', locale: 'en' }));
+    expect(chunks).toEqual(['Note: the budget is final.', 'The schedule is not.']);
+  });
+});
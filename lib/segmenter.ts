@@ -0,0 +1,218 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export type SegmentMode = 'newline' | 'sentence';
+
+export interface SegmentationSettings {
+  // 'newline' keeps paragraphs whole unless they exceed a limit,
+  // 'sentence' speaks each sentence as its own chunk
+  mode: SegmentMode;
+  maxChars: number;
+  maxSeconds: number;
+}
+
+export interface SegmenterOptions extends SegmentationSettings {
+  // BCP 47 tag used for sentence and word boundaries
+  locale?: string;
+  speechRate?: number;
+}
+
+export const DEFAULT_SEGMENTATION: SegmentationSettings = {
+  mode: 'newline',
+  maxChars: 400,
+  maxSeconds: 25,
+};
+
+// Average speaking rate at 1.0x, in characters of alphabetic text per second
+const CHARS_PER_SECOND = 15;
+
+// Ideographic and syllabic scripts carry roughly a word per character
+const DENSE_SCRIPT = /[぀-ヿ㐀-䶿一-鿿가-힯豈-﫿]/;
+
+// Scripts written without spaces between sentences
+const UNSPACED_SCRIPT = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}\p{Script=Lao}\p{Script=Khmer}\p{Script=Myanmar}]/u;
+
+const SENTENCE_FALLBACK = /[^.!?。！？؟۔]+[.!?。！？؟۔]+["'”’)\]]*\s*|[^.!?。！？؟۔]+$/g;
+const CLAUSE_BREAK = /(?<=[,;:、，；：،])\s*/;
+
+const LANGUAGE_LOCALES: Record<string, string> = {
+  english: 'en',
+  tagalog: 'tl',
+  filipino: 'fil',
+  taglish: 'fil',
+  cebuano: 'ceb',
+  chinese: 'zh',
+  mandarin: 'zh',
+  cantonese: 'yue',
+  japanese: 'ja',
+  korean: 'ko',
+  thai: 'th',
+  vietnamese: 'vi',
+  arabic: 'ar',
+  hebrew: 'he',
+  persian: 'fa',
+  farsi: 'fa',
+  urdu: 'ur',
+  hindi: 'hi',
+  spanish: 'es',
+  french: 'fr',
+  german: 'de',
+  dutch: 'nl',
+  portuguese: 'pt',
+  italian: 'it',
+  russian: 'ru',
+  indonesian: 'id',
+  malay: 'ms',
+};
+
+/**
+ * Maps the `source_language` of a transcript, either a BCP 47 tag ("en-US")
+ * or a display name ("Tagalog", "Chinese (Simplified)"), to a locale that
+ * `Intl.Segmenter` accepts.
+ */
+export const localeForLanguage = (language?: string): string | undefined => {
+  if (!language) return undefined;
+  const trimmed = language.trim();
+  const candidate = /^[a-z]{2,3}([-_][a-z0-9]{2,8})*$/i.test(trimmed)
+    ? trimmed.replace('_', '-')
+    : LANGUAGE_LOCALES[trimmed.toLowerCase().split(/[\s(]/)[0]];
+  if (!candidate) return undefined;
+  try {
+    return Intl.getCanonicalLocales(candidate)[0];
+  } catch (e) {
+    return undefined;
+  }
+};
+
+export const estimateSpeechSeconds = (text: string, speechRate: number = 1) => {
+  let weight = 0;
+  for (const char of text) {
+    weight += DENSE_SCRIPT.test(char) ? 3 : 1;
+  }
+  return weight / CHARS_PER_SECOND / (speechRate || 1);
+};
+
+// Joins consecutive pieces of text, with a space unless both sides of the
+// join are in a script written without one
+export const joinText = (before: string, after: string) => {
+  const lastLetter = before.match(/\p{L}(?=\P{L}*$)/u)?.[0] ?? '';
+  const firstLetter = after.match(/\p{L}/u)?.[0] ?? '';
+  const unspaced = UNSPACED_SCRIPT.test(lastLetter) && UNSPACED_SCRIPT.test(firstLetter);
+  return unspaced ? `${before}${after}` : `${before} ${after}`;
+};
+
+export const splitParagraphs = (text: string): string[] => {
+  if (!text) return [];
+  return text.split(/\r?\n+/).map(t => t.trim()).filter(t => t.length > 0);
+};
+
+const createSegmenter = (locale: string | undefined, granularity: 'sentence' | 'word') => {
+  if (typeof Intl === 'undefined' || !('Segmenter' in Intl)) return null;
+  try {
+    return new Intl.Segmenter(locale, { granularity });
+  } catch (e) {
+    return new Intl.Segmenter(undefined, { granularity });
+  }
+};
+
+const splitSentences = (text: string, locale?: string): string[] => {
+  const segmenter = createSegmenter(locale, 'sentence');
+  const parts = segmenter
+    ? Array.from(segmenter.segment(text), s => s.segment)
+    : text.match(SENTENCE_FALLBACK) || [text];
+  return parts.map(p => p.trim()).filter(p => p.length > 0);
+};
+
+const splitWords = (text: string, locale?: string): string[] => {
+  const segmenter = createSegmenter(locale, 'word');
+  if (segmenter) return Array.from(segmenter.segment(text), s => s.segment);
+  return text.split(/(\s+)/);
+};
+
+/**
+ * Greedily packs pieces into chunks that satisfy `fits`, joining them with
+ * `separator`. Pieces that do not fit on their own are passed to `split`.
+ */
+const pack = (
+  pieces: string[],
+  separator: string,
+  fits: (text: string) => boolean,
+  split: (piece: string) => string[]
+): string[] => {
+  const chunks: string[] = [];
+  let current = '';
+  pieces.forEach(piece => {
+    if (!fits(piece)) {
+      if (current) chunks.push(current);
+      current = '';
+      chunks.push(...split(piece));
+      return;
+    }
+    const joined = current ? `${current}${separator}${piece}` : piece;
+    if (fits(joined)) {
+      current = joined;
+    } else {
+      chunks.push(current);
+      current = piece;
+    }
+  });
+  if (current) chunks.push(current);
+  return chunks.map(c => c.trim()).filter(c => c.length > 0);
+};
+
+const hardSplit = (text: string, fits: (text: string) => boolean): string[] => {
+  const chunks: string[] = [];
+  let current = '';
+  for (const char of text) {
+    if (current && !fits(current + char)) {
+      chunks.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  if (current) chunks.push(current);
+  return chunks;
+};
+
+// Scripts written without spaces must not gain any when pieces are rejoined
+const separatorFor = (text: string) => (/\s/.test(text) ? ' ' : '');
+
+const splitOversized = (text: string, fits: (text: string) => boolean, locale?: string): string[] => {
+  const clauses = text.split(CLAUSE_BREAK).filter(c => c.length > 0);
+  const byWords = (clause: string) =>
+    pack(splitWords(clause, locale), '', fits, word => hardSplit(word, fits));
+  if (clauses.length > 1) return pack(clauses, separatorFor(text), fits, byWords);
+  return byWords(text);
+};
+
+/**
+ * Cuts one transcript paragraph into chunks small enough to be spoken in a
+ * single request. Speaker tags are resolved before segmenting, so the
+ * paragraph is plain text and every chunk is spoken as written.
+ */
+export const segmentParagraph = (paragraph: string, options: SegmenterOptions): string[] => {
+  const body = paragraph.trim();
+  if (!body) return [];
+
+  const maxChars = Math.max(20, options.maxChars);
+  const maxSeconds = Math.max(1, options.maxSeconds);
+  const fits = (text: string) =>
+    text.length <= maxChars && estimateSpeechSeconds(text, options.speechRate) <= maxSeconds;
+
+  let chunks: string[];
+  if (options.mode === 'sentence') {
+    chunks = splitSentences(body, options.locale).flatMap(sentence =>
+      fits(sentence) ? [sentence] : splitOversized(sentence, fits, options.locale)
+    );
+  } else if (fits(body)) {
+    chunks = [body];
+  } else {
+    chunks = pack(splitSentences(body, options.locale), separatorFor(body), fits, piece =>
+      splitOversized(piece, fits, options.locale)
+    );
+  }
+
+  return chunks.map(chunk => chunk.trim());
+};
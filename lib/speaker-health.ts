@@ -0,0 +1,86 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export type SpeakerHealthState = 'idle' | 'connecting' | 'connected' | 'degraded' | 'failed';
+
+export type SpeakerHealthEvent =
+  | 'connect' // A session is being opened
+  | 'open' // The session is ready
+  | 'reconnecting' // The session dropped and is being reopened
+  | 'reconnected'
+  | 'heard' // A turn came back with audio
+  | 'silent' // A turn was given up without any audio
+  | 'error'; // The session could not be opened or reopened
+
+export interface SpeakerHealth {
+  speaker: string;
+  language: string;
+  state: SpeakerHealthState;
+  // Date.now() when the state was entered
+  since: number;
+  // Silent turns since audio was last heard
+  silentTurns: number;
+  lastError?: string;
+}
+
+// Silent turns in a row after which a speaker counts as failed
+export const MAX_SILENT_TURNS = 2;
+// How long a failed speaker's segments go to the fallback voice before it is tried again
+export const FAILED_RETRY_MS = 30000;
+
+export const HEALTH_LABELS: Record<SpeakerHealthState, string> = {
+  idle: 'Idle',
+  connecting: 'Connecting',
+  connected: 'Connected',
+  degraded: 'Degraded',
+  failed: 'Failed',
+};
+
+export const initialHealth = (speaker: string, language: string): SpeakerHealth => ({
+  speaker,
+  language,
+  state: 'idle',
+  since: Date.now(),
+  silentTurns: 0,
+});
+
+const stateAfter = (health: SpeakerHealth, event: SpeakerHealthEvent): SpeakerHealthState => {
+  switch (event) {
+    case 'connect':
+      return 'connecting';
+    case 'open':
+    case 'reconnected':
+      // Reopening a session does not prove it speaks; that takes a heard turn
+      return health.silentTurns > 0 ? 'degraded' : 'connected';
+    case 'heard':
+      return 'connected';
+    case 'reconnecting':
+      return 'degraded';
+    case 'silent':
+      return health.silentTurns + 1 >= MAX_SILENT_TURNS ? 'failed' : 'degraded';
+    case 'error':
+      return 'failed';
+  }
+};
+
+export const nextHealth = (
+  health: SpeakerHealth,
+  event: SpeakerHealthEvent,
+  error?: string,
+  now: number = Date.now()
+): SpeakerHealth => {
+  const state = stateAfter(health, event);
+  return {
+    ...health,
+    state,
+    since: state === health.state ? health.since : now,
+    silentTurns: event === 'heard' ? 0 : event === 'silent' ? health.silentTurns + 1 : health.silentTurns,
+    lastError: event === 'heard' ? undefined : error ?? health.lastError,
+  };
+};
+
+// Failed speakers are skipped until their retry delay has passed
+export const isRoutable = (health: SpeakerHealth | undefined, now: number = Date.now()) =>
+  !health || health.state !== 'failed' || now - health.since >= FAILED_RETRY_MS;
@@ -0,0 +1,173 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { AVAILABLE_VOICES, SPEAKER_VOICE_MAP } from './constants';
+import type { VoiceStyle } from './state';
+
+// Segments without a recognised speaker go to the main client and its voice
+export const DEFAULT_SPEAKER_ID = 'default';
+
+export interface SpeakerProfile {
+  id: string;
+  name: string;
+  voice: string;
+  // 'inherit' follows the global voice style from the settings
+  style: VoiceStyle | 'inherit';
+  color: string;
+  // Other spellings of the tag that should map to this speaker
+  aliases: string[];
+  // Added from a transcript tag rather than by the user
+  autoRegistered?: boolean;
+}
+
+export type SpeakerTagMode = 'prefix' | 'regex' | 'json';
+
+export interface SpeakerTagSettings {
+  mode: SpeakerTagMode;
+  // Regex mode: named groups `speaker` and `text`, or groups 1 and 2
+  pattern: string;
+  // JSON mode: fields of a `{ "speaker": ..., "text": ... }` line
+  speakerField: string;
+  textField: string;
+  // Register unknown speaker names instead of sending them to the default voice;
+  // each one opens a Live client of its own, so this is off by default
+  autoRegister: boolean;
+}
+
+export const DEFAULT_SPEAKER_TAGS: SpeakerTagSettings = {
+  mode: 'prefix',
+  pattern: '^\\[(?<speaker>[^\\]]+)\\]\\s*(?<text>.*)$',
+  speakerField: 'speaker',
+  textField: 'text',
+  autoRegister: false,
+};
+
+// Tags past this many auto-registered speakers go to the default voice
+export const MAX_AUTO_SPEAKERS = 6;
+
+export const SPEAKER_COLORS = [
+  'var(--accent-cyan)',
+  'var(--accent-emerald)',
+  'var(--accent-purple)',
+  'var(--accent-signal)',
+  'var(--accent-orbit)',
+];
+
+// `[Any name] text`, or `Name: text` with up to four capitalised words, so
+// ordinary clauses such as "Agenda item 3:" are not taken for speakers
+const PREFIX_PATTERN =
+  /^(?:\[([^\]]+)\]:?|([\p{Lu}\p{Lo}\p{N}][\p{L}\p{N}._'-]*(?: [\p{Lu}\p{Lo}\p{N}][\p{L}\p{N}._'-]*){0,3}):)\s*(.*)$/su;
+const MAX_NAME_LENGTH = 40;
+
+export const speakerIdFromName = (name: string) =>
+  name.trim().toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '') || 'speaker';
+
+export const createSpeakerProfile = (
+  name: string,
+  existing: SpeakerProfile[],
+  overrides: Partial<SpeakerProfile> = {}
+): SpeakerProfile => {
+  let id = speakerIdFromName(name);
+  const baseId = id;
+  let counter = 2;
+  while (id === DEFAULT_SPEAKER_ID || existing.some(s => s.id === id)) {
+    id = `${baseId}-${counter++}`;
+  }
+  return {
+    id,
+    name: name.trim(),
+    voice: AVAILABLE_VOICES[existing.length % AVAILABLE_VOICES.length],
+    style: 'inherit',
+    color: SPEAKER_COLORS[existing.length % SPEAKER_COLORS.length],
+    aliases: [],
+    ...overrides,
+  };
+};
+
+export const DEFAULT_SPEAKERS: SpeakerProfile[] = Object.entries(SPEAKER_VOICE_MAP).reduce(
+  (profiles, [name, voice]) => [...profiles, createSpeakerProfile(name, profiles, { voice })],
+  [] as SpeakerProfile[]
+);
+
+export const findSpeaker = (name: string, speakers: SpeakerProfile[]) => {
+  const needle = name.trim().toLowerCase();
+  return speakers.find(
+    s =>
+      s.name.toLowerCase() === needle ||
+      s.id === needle ||
+      s.aliases.some(a => a.trim().toLowerCase() === needle)
+  );
+};
+
+/**
+ * Extracts the speaker tag of a transcript line according to the configured
+ * mode. Returns `speaker: null` when the line carries no tag.
+ */
+export const parseSpeakerTag = (
+  line: string,
+  settings: SpeakerTagSettings
+): { speaker: string | null; text: string } => {
+  const trimmed = line.trim();
+
+  if (settings.mode === 'json') {
+    try {
+      const parsed = JSON.parse(trimmed);
+      if (parsed && typeof parsed === 'object') {
+        const speaker = parsed[settings.speakerField];
+        const text = parsed[settings.textField];
+        return {
+          speaker: typeof speaker === 'string' && speaker.trim() ? speaker.trim() : null,
+          text: typeof text === 'string' ? text.trim() : '',
+        };
+      }
+    } catch (e) {
+      // Plain text lines fall through untagged
+    }
+    return { speaker: null, text: trimmed };
+  }
+
+  if (settings.mode === 'regex') {
+    let pattern: RegExp;
+    try {
+      pattern = new RegExp(settings.pattern, 'su');
+    } catch (e) {
+      return { speaker: null, text: trimmed };
+    }
+    const match = trimmed.match(pattern);
+    if (!match) return { speaker: null, text: trimmed };
+    const speaker = match.groups?.speaker ?? match[1];
+    const text = match.groups?.text ?? match[2] ?? trimmed.replace(match[0], '');
+    return { speaker: speaker?.trim() || null, text: text.trim() };
+  }
+
+  const match = trimmed.match(PREFIX_PATTERN);
+  const speaker = match && (match[1] ?? match[2]).trim();
+  if (!match || !speaker || speaker.length > MAX_NAME_LENGTH) return { speaker: null, text: trimmed };
+  return { speaker, text: match[3].trim() };
+};
+
+/**
+ * Maps a transcript line to a registered speaker. Unknown names yield a new
+ * profile when auto-registration is on and under `MAX_AUTO_SPEAKERS`;
+ * otherwise the line, tag included, is spoken by the default speaker since
+ * the tag was probably not a speaker.
+ */
+export const resolveSpeakerLine = (
+  line: string,
+  settings: SpeakerTagSettings,
+  speakers: SpeakerProfile[]
+): { speakerId: string; text: string; newProfile?: SpeakerProfile } => {
+  const { speaker, text } = parseSpeakerTag(line, settings);
+  if (!speaker) return { speakerId: DEFAULT_SPEAKER_ID, text };
+
+  const known = findSpeaker(speaker, speakers);
+  if (known) return { speakerId: known.id, text };
+
+  const autoRegistered = speakers.filter(s => s.autoRegistered).length;
+  if (!settings.autoRegister || autoRegistered >= MAX_AUTO_SPEAKERS) {
+    return { speakerId: DEFAULT_SPEAKER_ID, text: settings.mode === 'prefix' ? line.trim() : text };
+  }
+  const newProfile = createSpeakerProfile(speaker, speakers, { autoRegistered: true });
+  return { speakerId: newProfile.id, text, newProfile };
+};
@@ -5,16 +5,58 @@
 import { create } from 'zustand';
 import { DEFAULT_LIVE_API_MODEL, DEFAULT_VOICE } from './constants';
 import {
+  Behavior,
   FunctionResponse,
   FunctionResponseScheduling,
   LiveServerToolCall,
 } from '@google/genai';
+import { Transcript } from './supabase';
+import { DEFAULT_SEGMENTATION, SegmentationSettings } from './segmenter';
+import { DEFAULT_LAG_POLICY, LagPolicySettings } from './lag-policy';
+import { DEFAULT_LONG_SESSION, LongSessionSettings } from './long-session';
+import { DEFAULT_TRANSLATION_MEMORY, TranslationMemorySettings } from './translation-memory';
+import { GlossaryEntry, GlossaryViolation, glossaryInstruction } from './glossary';
+import { DEFAULT_TOOL_EXECUTOR, ToolExecutor } from './tool-executors';
+import { DEFAULT_INPUT_MODE, InputMode, LiveInputStatus } from './live-input';
+import { DEFAULT_TWO_WAY, Direction, languagePair, TwoWaySettings } from './two-way';
+import { MockScenarioId } from './mock-live';
+import {
+  copyTools,
+  deletePersistedTemplate,
+  newTemplateId,
+  persistTemplate,
+  PRESET_TEMPLATES,
+  Template,
+  ToolTemplate,
+} from './templates';
+import {
+  createSpeakerProfile,
+  DEFAULT_SPEAKER_TAGS,
+  DEFAULT_SPEAKERS,
+  SpeakerProfile,
+  SpeakerTagSettings,
+} from './speakers';
+import {
+  DEFAULT_TRANSCRIPT_SOURCE_CONFIG,
+  DEFAULT_TRANSCRIPT_SUBSCRIPTION,
+  TranscriptSessionSummary,
+  TranscriptSourceConfig,
+  TranscriptSourceStatus,
+  TranscriptSubscription,
+} from './transcript-sources/types';
 
-export type Template = 'eburon-tts';
+export type { Template } from './templates';
 export type Theme = 'light' | 'dark';
 export type VoiceStyle = 'natural' | 'conversational' | 'formal' | 'enthusiastic' | 'breathy' | 'dramatic';
 
-const generateSystemPrompt = (language: string, speed: number = 1.0, style: VoiceStyle = 'natural') => {
+const generateSystemPrompt = (
+  language: string,
+  speed: number = 1.0,
+  style: VoiceStyle = 'natural',
+  glossary: GlossaryEntry[] = [],
+  // The other side of a two-way pair, interpreted into `language` and back
+  pairLanguage?: string
+) => {
   let speedInstruction = "PACE: Natural, conversational speed.";
   if (speed < 1.0) {
     speedInstruction = `PACE: Slower than normal (${speed}x). Enunciate clearly and take your time.`;
@@ -80,7 +122,12 @@ VOICE PERSONA (The Balanced Speaker):
   return `
 SYSTEM MODE: HIGH-FIDELITY SIMULTANEOUS TRANSLATION.
 Role: You are an Elite Interpreter & Voice Actor.
-Task: Translate input text -> Speak in [${language || 'Taglish (Philippines)'}].
+${pairLanguage
+  ? `Task: Two-way interpretation between [${pairLanguage}] and [${language}].
+- Input in [${pairLanguage}] -> Speak in [${language}].
+- Input in [${language}] -> Speak in [${pairLanguage}].
+- Decide the direction for every input on its own; never repeat the input in the language it was given in.`
+  : `Task: Translate input text -> Speak in [${language || 'Taglish (Philippines)'}].`}
 
 ${speedInstruction}
 
@@ -109,57 +156,227 @@ ${speedInstruction}
 4. You must IMMEDIATELY perform the translation of the input text into audio.
 
 ${personaInstruction}
-
+${pairLanguage
+  ? glossaryInstruction(glossary, language, true) + glossaryInstruction(glossary, pairLanguage, true)
+  : glossaryInstruction(glossary, language)}
 START TRANSLATING NOW.
 `;
 };
 
+// Whether the active tool template brings a prompt of its own
+const templateHasOwnPrompt = () => {
+  const { template, savedTemplates } = useTools.getState();
+  return [...PRESET_TEMPLATES, ...savedTemplates].find(t => t.id === template)?.systemPrompt != null;
+};
+
+// Prompt after a translation setting changed; a template's own prompt is kept
+const settingsPrompt = (current: string, ...args: Parameters<typeof generateSystemPrompt>) =>
+  templateHasOwnPrompt() ? current : generateSystemPrompt(...args);
+
+const pairLanguageOf = (state: { twoWay: TwoWaySettings; language: string }) => languagePair(state)?.[0];
+
 /**
  * Settings
  */
 export const useSettings = create<{
   systemPrompt: string;
   model: string;
+  // Sessions are answered by the offline mock server instead of the Live API
+  mockScenario: MockScenarioId | null;
   voice: string;
   voiceStyle: VoiceStyle;
   language: string;
+  // Spoken alongside `language`, each by its own set of clients
+  additionalLanguages: string[];
   speechRate: number;
   backgroundPadEnabled: boolean;
   backgroundPadVolume: number;
+  // What the model translates: the transcript feed, or audio streamed to it
+  inputMode: InputMode;
+  twoWay: TwoWaySettings;
+  transcriptSource: TranscriptSourceConfig;
+  transcriptSubscription: TranscriptSubscription;
+  segmentation: SegmentationSettings;
+  speakerTags: SpeakerTagSettings;
+  lagPolicy: LagPolicySettings;
+  longSession: LongSessionSettings;
+  // Segments requested from the model ahead of the one playing
+  pipelineDepth: number;
+  translationMemory: TranslationMemorySettings;
+  glossary: GlossaryEntry[];
   setSystemPrompt: (prompt: string) => void;
   setModel: (model: string) => void;
+  setMockScenario: (scenario: MockScenarioId | null) => void;
   setVoice: (voice: string) => void;
   setVoiceStyle: (style: VoiceStyle) => void;
   setLanguage: (language: string) => void;
+  setAdditionalLanguages: (languages: string[]) => void;
   setSpeechRate: (rate: number) => void;
   setBackgroundPadEnabled: (enabled: boolean) => void;
   setBackgroundPadVolume: (volume: number) => void;
+  setInputMode: (mode: InputMode) => void;
+  setTwoWay: (update: Partial<TwoWaySettings>) => void;
+  setTranscriptSource: (update: Partial<TranscriptSourceConfig>) => void;
+  setTranscriptSubscription: (update: Partial<TranscriptSubscription>) => void;
+  setSegmentation: (update: Partial<SegmentationSettings>) => void;
+  setSpeakerTags: (update: Partial<SpeakerTagSettings>) => void;
+  setLagPolicy: (update: Partial<LagPolicySettings>) => void;
+  setLongSession: (update: Partial<LongSessionSettings>) => void;
+  setPipelineDepth: (depth: number) => void;
+  setTranslationMemory: (update: Partial<TranslationMemorySettings>) => void;
+  addGlossaryEntry: (entry: GlossaryEntry) => void;
+  updateGlossaryEntry: (id: string, update: Partial<Omit<GlossaryEntry, 'id'>>) => void;
+  removeGlossaryEntry: (id: string) => void;
 }>(set => ({
   language: 'Taglish (Philippines)',
+  additionalLanguages: [],
   speechRate: 1.0,
   voiceStyle: 'conversational',
   systemPrompt: generateSystemPrompt('Taglish (Philippines)', 1.0, 'conversational'),
   model: DEFAULT_LIVE_API_MODEL,
+  mockScenario: null,
   voice: DEFAULT_VOICE,
   backgroundPadEnabled: false,
   backgroundPadVolume: 0.2,
+  inputMode: DEFAULT_INPUT_MODE,
+  twoWay: DEFAULT_TWO_WAY,
+  transcriptSource: DEFAULT_TRANSCRIPT_SOURCE_CONFIG,
+  transcriptSubscription: DEFAULT_TRANSCRIPT_SUBSCRIPTION,
+  segmentation: DEFAULT_SEGMENTATION,
+  speakerTags: DEFAULT_SPEAKER_TAGS,
+  lagPolicy: DEFAULT_LAG_POLICY,
+  longSession: DEFAULT_LONG_SESSION,
+  pipelineDepth: 2,
+  translationMemory: DEFAULT_TRANSLATION_MEMORY,
+  glossary: [],
   setSystemPrompt: prompt => set({ systemPrompt: prompt }),
   setModel: model => set({ model }),
+  setMockScenario: mockScenario => set({ mockScenario }),
   setVoice: voice => set({ voice }),
   setVoiceStyle: voiceStyle => set(state => ({ 
     voiceStyle,
-    systemPrompt: generateSystemPrompt(state.language, state.speechRate, voiceStyle)
+    systemPrompt: settingsPrompt(state.systemPrompt, state.language, state.speechRate, voiceStyle, state.glossary, pairLanguageOf(state))
   })),
   setLanguage: language => set(state => ({ 
     language, 
-    systemPrompt: generateSystemPrompt(language, state.speechRate, state.voiceStyle) 
+    systemPrompt: settingsPrompt(state.systemPrompt, language, state.speechRate, state.voiceStyle, state.glossary, pairLanguageOf({ ...state, language }))
   })),
+  setAdditionalLanguages: additionalLanguages => set({ additionalLanguages }),
   setSpeechRate: rate => set(state => ({ 
     speechRate: rate, 
-    systemPrompt: generateSystemPrompt(state.language, rate, state.voiceStyle) 
+    systemPrompt: settingsPrompt(state.systemPrompt, state.language, rate, state.voiceStyle, state.glossary, pairLanguageOf(state))
   })),
   setBackgroundPadEnabled: enabled => set({ backgroundPadEnabled: enabled }),
   setBackgroundPadVolume: volume => set({ backgroundPadVolume: volume }),
+  setInputMode: inputMode => set({ inputMode }),
+  setTwoWay: update => set(state => {
+    const twoWay = { ...state.twoWay, ...update };
+    return {
+      twoWay,
+      systemPrompt: settingsPrompt(
+        state.systemPrompt, state.language, state.speechRate, state.voiceStyle, state.glossary,
+        pairLanguageOf({ ...state, twoWay })
+      ),
+    };
+  }),
+  setTranscriptSource: update => set(state => ({
+    transcriptSource: { ...state.transcriptSource, ...update },
+  })),
+  setTranscriptSubscription: update => set(state => ({
+    transcriptSubscription: { ...state.transcriptSubscription, ...update },
+  })),
+  setSegmentation: update => set(state => ({
+    segmentation: { ...state.segmentation, ...update },
+  })),
+  setSpeakerTags: update => set(state => ({
+    speakerTags: { ...state.speakerTags, ...update },
+  })),
+  setLagPolicy: update => set(state => ({
+    lagPolicy: { ...state.lagPolicy, ...update },
+  })),
+  setLongSession: update => set(state => ({
+    longSession: { ...state.longSession, ...update },
+  })),
+  setPipelineDepth: pipelineDepth => set({ pipelineDepth }),
+  setTranslationMemory: update => set(state => ({
+    translationMemory: { ...state.translationMemory, ...update },
+  })),
+  addGlossaryEntry: entry => set(state => {
+    const glossary = [...state.glossary, entry];
+    return {
+      glossary,
+      systemPrompt: settingsPrompt(state.systemPrompt, state.language, state.speechRate, state.voiceStyle, glossary, pairLanguageOf(state)),
+    };
+  }),
+  updateGlossaryEntry: (id, update) => set(state => {
+    const glossary = state.glossary.map(e => (e.id === id ? { ...e, ...update } : e));
+    return {
+      glossary,
+      systemPrompt: settingsPrompt(state.systemPrompt, state.language, state.speechRate, state.voiceStyle, glossary, pairLanguageOf(state)),
+    };
+  }),
+  removeGlossaryEntry: id => set(state => {
+    const glossary = state.glossary.filter(e => e.id !== id);
+    return {
+      glossary,
+      systemPrompt: settingsPrompt(state.systemPrompt, state.language, state.speechRate, state.voiceStyle, glossary, pairLanguageOf(state)),
+    };
+  }),
+}));
+
+// Every language segments are translated into, the primary one first
+export const targetLanguages = (state: { language: string; additionalLanguages: string[] }) => [
+  state.language,
+  ...state.additionalLanguages.filter(l => l !== state.language),
+];
+
+// The language this screen plays and shows, falling back to the primary one
+export const listeningLanguage = (
+  state: { language: string; additionalLanguages: string[] },
+  listenerLanguage: string | null
+) => (listenerLanguage && targetLanguages(state).includes(listenerLanguage) ? listenerLanguage : state.language);
+
+// The primary language keeps any edits made to the system prompt, which
+// interprets both ways in two-way mode; other languages are one-way
+export const systemPromptFor = (language: string) => {
+  const state = useSettings.getState();
+  return language === state.language
+    ? state.systemPrompt
+    : generateSystemPrompt(language, state.speechRate, state.voiceStyle, state.glossary);
+};
+
+/**
+ * Speakers
+ */
+export const useSpeakers = create<{
+  speakers: SpeakerProfile[];
+  addSpeaker: (name?: string) => void;
+  registerSpeaker: (profile: SpeakerProfile) => void;
+  updateSpeaker: (id: string, update: Partial<Omit<SpeakerProfile, 'id'>>) => void;
+  removeSpeaker: (id: string) => void;
+}>(set => ({
+  speakers: DEFAULT_SPEAKERS,
+  addSpeaker: (name?: string) =>
+    set(state => {
+      let newName = name || 'New Speaker';
+      let counter = 1;
+      while (!name && state.speakers.some(s => s.name === newName)) {
+        newName = `New Speaker ${counter++}`;
+      }
+      return { speakers: [...state.speakers, createSpeakerProfile(newName, state.speakers)] };
+    }),
+  registerSpeaker: (profile: SpeakerProfile) =>
+    set(state =>
+      state.speakers.some(s => s.id === profile.id)
+        ? state
+        : { speakers: [...state.speakers, profile] }
+    ),
+  updateSpeaker: (id, update) =>
+    set(state => ({
+      speakers: state.speakers.map(s => (s.id === id ? { ...s, ...update } : s)),
+    })),
+  removeSpeaker: (id: string) =>
+    set(state => ({ speakers: state.speakers.filter(s => s.id !== id) })),
 }));
 
 /**
@@ -168,13 +385,147 @@ export const useSettings = create<{
 export const useUI = create<{
   isSidebarOpen: boolean;
   theme: Theme;
+  // Target language heard and shown on this screen; null for the primary one
+  listenerLanguage: string | null;
   toggleSidebar: () => void;
   toggleTheme: () => void;
+  setListenerLanguage: (language: string | null) => void;
 }>(set => ({
   isSidebarOpen: false, // Default closed on mobile-first approach
   theme: 'dark',
+  listenerLanguage: null,
   toggleSidebar: () => set(state => ({ isSidebarOpen: !state.isSidebarOpen })),
   toggleTheme: () => set(state => ({ theme: state.theme === 'light' ? 'dark' : 'light' })),
+  setListenerLanguage: listenerLanguage => set({ listenerLanguage }),
+}));
+
+/**
+ * Bridge
+ */
+// 'resumed' kept the model's context; 'fresh' had to start a new session
+export type ReconnectOutcome = 'resumed' | 'fresh' | 'failed';
+
+export const useBridgeStatus = create<{
+  sourceStatus: TranscriptSourceStatus;
+  lastTranscript: Transcript | null;
+  // Sessions seen on the feed or listed from the database, newest update first
+  sessions: TranscriptSessionSummary[];
+  followedSessionId: string | null;
+  // Segments restored from the persisted queue on page load
+  resumedCount: number;
+  // How far spoken output trails the transcript, and what is still pending
+  lagSeconds: number;
+  queueLength: number;
+  playbackRate: number;
+  // Failed turns the user asked to speak again, picked up by the bridge
+  pendingRetries: string[];
+  // Translation rows waiting in the outbox for Supabase
+  outboxPending: number;
+  outboxFailed: number;
+  outboxError: string | null;
+  // Live sessions being reopened, as "speaker · language" labels
+  reconnecting: string[];
+  lastReconnect: { at: number; outcome: ReconnectOutcome } | null;
+  setSourceStatus: (status: TranscriptSourceStatus) => void;
+  setLastTranscript: (transcript: Transcript | null) => void;
+  upsertSessions: (sessions: TranscriptSessionSummary[]) => void;
+  setFollowedSessionId: (sessionId: string | null) => void;
+  setResumedCount: (count: number) => void;
+  setQueueStats: (stats: { lagSeconds: number; queueLength: number; playbackRate: number }) => void;
+  requestRetry: (turnId: string) => void;
+  clearRetries: (turnIds: string[]) => void;
+  setOutboxStats: (stats: { pending: number; failed: number; lastError: string | null }) => void;
+  startReconnect: (label: string) => void;
+  // A null outcome ends the reconnect without a notice, e.g. when stopped on purpose
+  endReconnect: (label: string, outcome: ReconnectOutcome | null) => void;
+}>(set => ({
+  sourceStatus: 'idle',
+  lastTranscript: null,
+  sessions: [],
+  followedSessionId: null,
+  resumedCount: 0,
+  lagSeconds: 0,
+  queueLength: 0,
+  playbackRate: 1,
+  pendingRetries: [],
+  outboxPending: 0,
+  outboxFailed: 0,
+  outboxError: null,
+  reconnecting: [],
+  lastReconnect: null,
+  setSourceStatus: sourceStatus => set({ sourceStatus }),
+  setLastTranscript: lastTranscript => set({ lastTranscript }),
+  upsertSessions: sessions => set(state => {
+    const merged = new Map(state.sessions.map(s => [s.session_id, s]));
+    sessions.forEach(s => {
+      const existing = merged.get(s.session_id);
+      if (!existing || s.updated_at >= existing.updated_at) merged.set(s.session_id, s);
+    });
+    return {
+      sessions: Array.from(merged.values()).sort((a, b) => b.updated_at.localeCompare(a.updated_at)),
+    };
+  }),
+  setFollowedSessionId: followedSessionId => set({ followedSessionId }),
+  setResumedCount: resumedCount => set({ resumedCount }),
+  setQueueStats: stats => set(state =>
+    state.lagSeconds === stats.lagSeconds &&
+    state.queueLength === stats.queueLength &&
+    state.playbackRate === stats.playbackRate
+      ? state
+      : stats
+  ),
+  requestRetry: turnId => set(state => ({
+    pendingRetries: state.pendingRetries.includes(turnId)
+      ? state.pendingRetries
+      : [...state.pendingRetries, turnId],
+  })),
+  clearRetries: turnIds => set(state => ({
+    pendingRetries: state.pendingRetries.filter(id => !turnIds.includes(id)),
+  })),
+  setOutboxStats: stats => set({
+    outboxPending: stats.pending,
+    outboxFailed: stats.failed,
+    outboxError: stats.lastError,
+  }),
+  startReconnect: label => set(state => ({
+    reconnecting: state.reconnecting.includes(label) ? state.reconnecting : [...state.reconnecting, label],
+  })),
+  endReconnect: (label, outcome) => set(state => ({
+    reconnecting: state.reconnecting.filter(l => l !== label),
+    lastReconnect: outcome ? { at: Date.now(), outcome } : state.lastReconnect,
+  })),
+}));
+
+/**
+ * Live input
+ */
+export const useLiveInput = create<{
+  status: LiveInputStatus;
+  error: string | null;
+  // Audio stops being sent while muted; the session stays open
+  muted: boolean;
+  volume: number;
+  // Played into the session in the audio file mode
+  file: File | null;
+  // Seconds of the file sent so far, and its length
+  progress: { seconds: number; duration: number } | null;
+  setStatus: (status: LiveInputStatus, error?: string | null) => void;
+  setMuted: (muted: boolean) => void;
+  setVolume: (volume: number) => void;
+  setFile: (file: File | null) => void;
+  setProgress: (progress: { seconds: number; duration: number } | null) => void;
+}>(set => ({
+  status: 'idle',
+  error: null,
+  muted: false,
+  volume: 0,
+  file: null,
+  progress: null,
+  setStatus: (status, error = null) => set({ status, error }),
+  setMuted: muted => set({ muted }),
+  setVolume: volume => set({ volume }),
+  setFile: file => set({ file, progress: null }),
+  setProgress: progress => set({ progress }),
 }));
 
 /**
@@ -185,22 +536,77 @@ export interface FunctionCall {
   description?: string;
   parameters?: any;
   isEnabled: boolean;
+  // Unset means BLOCKING: the model waits for the result before going on
+  behavior?: Behavior;
+  // When a NON_BLOCKING call's result is spoken; ignored for blocking calls
   scheduling?: FunctionResponseScheduling;
+  // What answers the call; tools without one reply with the default mock
+  executor?: ToolExecutor;
+  timeoutMs?: number;
 }
 
 export const useTools = create<{
   tools: FunctionCall[];
   template: Template;
+  savedTemplates: ToolTemplate[];
+  // Loads the template's tools and system prompt
   setTemplate: (template: Template) => void;
+  // Saves the current tools and system prompt as a new template and switches to it
+  saveTemplate: (name: string) => void;
+  removeTemplate: (id: Template) => void;
+  addSavedTemplates: (templates: ToolTemplate[], persist?: boolean) => void;
   toggleTool: (toolName: string) => void;
   addTool: () => void;
+  // Inserts a copy of the tool right after it, under a free name
+  duplicateTool: (toolName: string) => void;
+  // Appends the tools, renaming any whose name is taken
+  addTools: (tools: FunctionCall[]) => void;
   removeTool: (toolName: string) => void;
   updateTool: (oldName: string, updatedTool: FunctionCall) => void;
-}>(set => ({
+}>((set, get) => ({
   tools: [], // Default to no tools for read-aloud mode
   template: 'eburon-tts',
+  savedTemplates: [],
   setTemplate: (template: Template) => {
-    // No-op for now as we only have one mode
+    const found = [...PRESET_TEMPLATES, ...get().savedTemplates].find(t => t.id === template);
+    if (!found) {
+      console.warn(`Unknown template "${template}".`);
+      return;
+    }
+    const settings = useSettings.getState();
+    settings.setSystemPrompt(
+      found.systemPrompt ??
+        generateSystemPrompt(
+          settings.language, settings.speechRate, settings.voiceStyle, settings.glossary, pairLanguageOf(settings)
+        )
+    );
+    set({ template, tools: copyTools(found.tools) });
+  },
+  saveTemplate: (name: string) => {
+    const template: ToolTemplate = {
+      id: newTemplateId(),
+      name,
+      systemPrompt: templateHasOwnPrompt() ? useSettings.getState().systemPrompt : null,
+      tools: copyTools(get().tools),
+    };
+    persistTemplate(template);
+    set(state => ({ template: template.id, savedTemplates: [...state.savedTemplates, template] }));
+  },
+  removeTemplate: (id: Template) => {
+    deletePersistedTemplate(id);
+    set(state => ({
+      savedTemplates: state.savedTemplates.filter(t => t.id !== id),
+      template: state.template === id ? 'eburon-tts' : state.template,
+    }));
+  },
+  addSavedTemplates: (templates: ToolTemplate[], persist = true) => {
+    if (persist) templates.forEach(persistTemplate);
+    set(state => ({
+      savedTemplates: [
+        ...state.savedTemplates.filter(t => !templates.some(n => n.id === t.id)),
+        ...templates,
+      ],
+    }));
   },
   toggleTool: (toolName: string) =>
     set(state => ({
@@ -227,10 +633,38 @@ export const useTools = create<{
               properties: {},
             },
             scheduling: FunctionResponseScheduling.INTERRUPT,
+            executor: { ...DEFAULT_TOOL_EXECUTOR },
           },
         ],
       };
     }),
+  duplicateTool: (toolName: string) =>
+    set(state => {
+      const index = state.tools.findIndex(tool => tool.name === toolName);
+      if (index === -1) return state;
+      let copyName = `${toolName}_copy`;
+      let counter = 2;
+      while (state.tools.some(tool => tool.name === copyName)) {
+        copyName = `${toolName}_copy_${counter++}`;
+      }
+      const [copy] = copyTools([state.tools[index]]);
+      const tools = [...state.tools];
+      tools.splice(index + 1, 0, { ...copy, name: copyName });
+      return { tools };
+    }),
+  addTools: (newTools: FunctionCall[]) =>
+    set(state => {
+      const tools = [...state.tools];
+      copyTools(newTools).forEach(tool => {
+        let name = tool.name;
+        let counter = 2;
+        while (tools.some(t => t.name === name)) {
+          name = `${tool.name}_${counter++}`;
+        }
+        tools.push({ ...tool, name });
+      });
+      return { tools };
+    }),
   removeTool: (toolName: string) =>
     set(state => ({
       tools: state.tools.filter(tool => tool.name !== toolName),
@@ -265,15 +699,27 @@ export interface GroundingChunk {
   };
 }
 
+export type TurnStatus = 'retrying' | 'failed' | 'spoken';
+
 export interface ConversationTurn {
   id?: string;
   timestamp: Date;
   role: 'user' | 'agent' | 'system';
   text: string;
   translation?: string;
+  translations?: Record<string, string>; // By target language, the primary one included
   sourceText?: string;
+  direction?: Direction; // Which side of the two-way pair was speaking
   isFinal: boolean;
   speaker?: string; // New field for speaker identification
+  speakerId?: string; // Registry id, used for the speaker's color
+  revisionOf?: string; // Turn whose source paragraph was edited into this one
+  resumed?: boolean; // Restored from the persisted queue after a reload
+  skipped?: boolean; // Dropped by the lag policy before it was spoken
+  status?: TurnStatus;
+  attempts?: number; // Requests made for the segment, counting retries
+  cached?: boolean; // Replayed from the translation memory
+  glossaryViolations?: GlossaryViolation[]; // Glossary terms the translation did not follow
   toolUseRequest?: LiveServerToolCall;
   toolUseResponse?: LiveClientToolResponse;
   groundingChunks?: GroundingChunk[];
@@ -284,6 +730,7 @@ export const useLogStore = create<{
   addTurn: (turn: Omit<ConversationTurn, 'timestamp'>) => void;
   updateLastTurn: (update: Partial<ConversationTurn>) => void;
   updateTurn: (id: string, update: Partial<ConversationTurn>) => void;
+  removeTurns: (ids: string[]) => void;
   clearTurns: () => void;
 }>((set, get) => ({
   turns: [],
@@ -309,5 +756,10 @@ export const useLogStore = create<{
       ),
     }));
   },
+  removeTurns: (ids: string[]) => {
+    set(state => ({
+      turns: state.turns.filter(turn => !turn.id || !ids.includes(turn.id)),
+    }));
+  },
   clearTurns: () => set({ turns: [] }),
 }));
\ No newline at end of file
@@ -27,4 +27,21 @@ export interface Translation {
   translated_text: string;
   language: string;
   created_at?: string;
+  // Columns added after the first schema; older tables may lack them
+  turn_id?: string;
+  speaker_id?: string;
+  speaker_name?: string;
+  voice?: string;
+  voice_style?: string;
+  // Position of the paragraph in the transcript, and of the segment within it
+  paragraph_index?: number;
+  segment_index?: number;
+  // ISO timestamps: queued, requested from the model, first audio, released to playback
+  enqueued_at?: string;
+  requested_at?: string;
+  first_audio_at?: string;
+  spoken_at?: string;
+  // From queueing to the start of playback
+  latency_ms?: number;
+  audio_duration_ms?: number;
 }
\ No newline at end of file
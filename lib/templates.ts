@@ -0,0 +1,178 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Behavior, FunctionResponseScheduling } from '@google/genai';
+import { FunctionCall } from './state';
+import { parseToolExecutor } from './tool-executors';
+import { customerSupportTools } from './tools/customer-support';
+import { navigationSystemTools } from './tools/navigation-system';
+import { personalAssistantTools } from './tools/personal-assistant';
+import { CUSTOMER_SUPPORT_PROMPT, NAVIGATION_SYSTEM_PROMPT, PERSONAL_ASSISTANT_PROMPT } from './prompts';
+import { idbDelete, idbGetAll, idbSet } from './idb';
+
+export type PresetTemplate = 'eburon-tts' | 'customer-support' | 'personal-assistant' | 'navigation-system';
+// Templates saved by the user are keyed `user:<uuid>`
+export type Template = PresetTemplate | `user:${string}`;
+
+export interface ToolTemplate {
+  id: Template;
+  name: string;
+  description?: string;
+  // null keeps the translation prompt generated from the settings
+  systemPrompt: string | null;
+  tools: FunctionCall[];
+}
+
+export const PRESET_TEMPLATES: ToolTemplate[] = [
+  {
+    id: 'eburon-tts',
+    name: 'Translation read-aloud',
+    description: 'Translates the transcript and speaks it, without tools.',
+    systemPrompt: null,
+    tools: [],
+  },
+  {
+    id: 'customer-support',
+    name: 'Customer support',
+    description: 'Returns, order status and escalation to a representative.',
+    systemPrompt: CUSTOMER_SUPPORT_PROMPT,
+    tools: customerSupportTools,
+  },
+  {
+    id: 'personal-assistant',
+    name: 'Personal assistant',
+    description: 'Calendar events, emails and reminders.',
+    systemPrompt: PERSONAL_ASSISTANT_PROMPT,
+    tools: personalAssistantTools,
+  },
+  {
+    id: 'navigation-system',
+    name: 'Navigation system',
+    description: 'Routes, nearby places and traffic.',
+    systemPrompt: NAVIGATION_SYSTEM_PROMPT,
+    tools: navigationSystemTools,
+  },
+];
+
+export const isUserTemplate = (id: Template) => id.startsWith('user:');
+
+export const newTemplateId = (): Template => `user:${crypto.randomUUID()}`;
+
+// Templates are copied in and out of the store so editing tools never changes a preset
+export const copyTools = (tools: FunctionCall[]): FunctionCall[] => JSON.parse(JSON.stringify(tools));
+
+export const loadSavedTemplates = async (): Promise<ToolTemplate[]> => {
+  try {
+    return await idbGetAll<ToolTemplate>('templates');
+  } catch (e) {
+    console.warn('Failed to load saved templates:', e);
+    return [];
+  }
+};
+
+export const persistTemplate = (template: ToolTemplate) =>
+  idbSet('templates', template.id, template).catch(e => console.warn('Failed to save template:', e));
+
+export const deletePersistedTemplate = (id: Template) =>
+  idbDelete('templates', id).catch(e => console.warn('Failed to delete template:', e));
+
+/**
+ * Template files
+ */
+const TEMPLATE_FILE_FORMAT = 'orbitz-tool-templates';
+const TEMPLATE_FILE_VERSION = 1;
+
+interface TemplateFile {
+  format: typeof TEMPLATE_FILE_FORMAT;
+  version: number;
+  templates: Omit<ToolTemplate, 'id'>[];
+}
+
+export const exportTemplates = (templates: ToolTemplate[]) => {
+  const file: TemplateFile = {
+    format: TEMPLATE_FILE_FORMAT,
+    version: TEMPLATE_FILE_VERSION,
+    templates: templates.map(({ id, ...template }) => template),
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const BEHAVIOR_VALUES: string[] = Object.values(Behavior);
+const SCHEDULING_VALUES: string[] = Object.values(FunctionResponseScheduling);
+
+// Keeps only the fields a tool has, with its executor checked
+const parseTool = (value: unknown, templateName: string): FunctionCall => {
+  if (!isPlainObject(value) || typeof value.name !== 'string' || !value.name || typeof value.isEnabled !== 'boolean') {
+    throw new Error(`Template "${templateName}" has a tool without a name or enabled flag.`);
+  }
+  const tool: FunctionCall = { name: value.name, isEnabled: value.isEnabled };
+  if (typeof value.description === 'string') tool.description = value.description;
+  if (value.parameters !== undefined) tool.parameters = JSON.parse(JSON.stringify(value.parameters));
+  if (typeof value.behavior === 'string' && BEHAVIOR_VALUES.includes(value.behavior)) {
+    tool.behavior = value.behavior as Behavior;
+  }
+  if (typeof value.scheduling === 'string' && SCHEDULING_VALUES.includes(value.scheduling)) {
+    tool.scheduling = value.scheduling as FunctionResponseScheduling;
+  }
+  if (typeof value.timeoutMs === 'number' && value.timeoutMs > 0) tool.timeoutMs = value.timeoutMs;
+  if (value.executor !== undefined) {
+    try {
+      tool.executor = parseToolExecutor(value.executor);
+    } catch (e) {
+      throw new Error(`Tool "${value.name}" in template "${templateName}": ${e instanceof Error ? e.message : e}`);
+    }
+  }
+  return tool;
+};
+
+/**
+ * Reads templates exported by `exportTemplates`; a single template object is
+ * accepted too. Imported templates get new ids. Throws when the file does
+ * not hold any valid template.
+ */
+export const parseTemplateFile = (text: string): ToolTemplate[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  if (isPlainObject(data) && data.format === TEMPLATE_FILE_FORMAT
+    && typeof data.version === 'number' && data.version > TEMPLATE_FILE_VERSION) {
+    throw new Error(`The file was made by a newer version (${data.version}).`);
+  }
+
+  const entries: unknown[] = isPlainObject(data) && Array.isArray(data.templates) ? data.templates : [data];
+  const templates = entries
+    .filter(isPlainObject)
+    .flatMap(entry => {
+      const { name, tools } = entry;
+      if (typeof name !== 'string' || !Array.isArray(tools)) return [];
+      return [{
+        id: newTemplateId(),
+        name,
+        description: typeof entry.description === 'string' ? entry.description : undefined,
+        systemPrompt: typeof entry.systemPrompt === 'string' ? entry.systemPrompt : null,
+        tools: tools.map(tool => parseTool(tool, name)),
+      }];
+    });
+  if (templates.length === 0) throw new Error('The file does not contain any templates.');
+  return templates;
+};
+
+// `METHOD url` of every webhook the templates' tools call
+export const templateWebhooks = (templates: ToolTemplate[]) => [
+  ...new Set(templates.flatMap(template => template.tools.flatMap(tool =>
+    tool.executor?.kind === 'http' ? [`${tool.executor.method} ${tool.executor.url}`] : []))),
+];
+
+// The templates with every webhook tool turned off
+export const disableWebhooks = (templates: ToolTemplate[]): ToolTemplate[] =>
+  templates.map(template => ({
+    ...template,
+    tools: template.tools.map(tool => (tool.executor?.kind === 'http' ? { ...tool, isEnabled: false } : tool)),
+  }));
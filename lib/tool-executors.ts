@@ -0,0 +1,226 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export type ToolExecutorKind = 'mock' | 'local' | 'http';
+
+export interface MockToolExecutor {
+  kind: 'mock';
+  // JSON sent back as the result; plain text is sent as a string
+  response: string;
+  delayMs: number;
+}
+
+export interface LocalToolExecutor {
+  kind: 'local';
+  // Name of a handler added with `registerLocalTool`
+  handler: string;
+}
+
+export const HTTP_TOOL_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'] as const;
+export type HttpToolMethod = typeof HTTP_TOOL_METHODS[number];
+
+export interface HttpToolExecutor {
+  kind: 'http';
+  // `{name}` placeholders are filled with the argument of that name
+  url: string;
+  // GET and DELETE send the other arguments as query parameters, the rest as a JSON body
+  method: HttpToolMethod;
+  headers: Record<string, string>;
+  // Arguments always sent as query parameters
+  queryParams?: string[];
+  // Argument sent as the whole body, instead of the remaining arguments
+  bodyParam?: string;
+}
+
+export type ToolExecutor = MockToolExecutor | LocalToolExecutor | HttpToolExecutor;
+
+export const TOOL_EXECUTOR_LABELS: Record<ToolExecutorKind, string> = {
+  mock: 'Mock response',
+  local: 'Local function',
+  http: 'HTTP webhook',
+};
+
+export const DEFAULT_TOOL_TIMEOUT_MS = 10000;
+
+// Answers like the tools always did before they could be executed
+export const DEFAULT_TOOL_EXECUTOR: MockToolExecutor = {
+  kind: 'mock',
+  response: '{"result": "ok"}',
+  delayMs: 0,
+};
+
+export const defaultExecutor = (kind: ToolExecutorKind): ToolExecutor => {
+  switch (kind) {
+    case 'local':
+      return { kind, handler: localToolNames()[0] || '' };
+    case 'http':
+      return { kind, url: '', method: 'POST', headers: {} };
+    case 'mock':
+    default:
+      return { ...DEFAULT_TOOL_EXECUTOR };
+  }
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+/**
+ * Checks an executor read from a file and keeps only its known fields.
+ * Throws on unknown kinds and malformed fields, so they never run.
+ */
+export const parseToolExecutor = (value: unknown): ToolExecutor => {
+  if (!isPlainObject(value)) throw new Error('The executor must be an object.');
+  switch (value.kind) {
+    case 'mock':
+      if (typeof value.response !== 'string') throw new Error('A mock response must be a string.');
+      return {
+        kind: 'mock',
+        response: value.response,
+        delayMs: typeof value.delayMs === 'number' && value.delayMs > 0 ? value.delayMs : 0,
+      };
+    case 'local':
+      if (typeof value.handler !== 'string') throw new Error('A local function needs a handler name.');
+      return { kind: 'local', handler: value.handler };
+    case 'http': {
+      const { url, method, headers, queryParams, bodyParam } = value;
+      if (typeof url !== 'string' || !/^https?:\/\//i.test(url)) throw new Error('A webhook needs an http(s) URL.');
+      if (!HTTP_TOOL_METHODS.includes(method as HttpToolMethod)) throw new Error(`Unsupported method "${String(method)}".`);
+      if (headers !== undefined && !(isPlainObject(headers) && Object.values(headers).every(v => typeof v === 'string'))) {
+        throw new Error('Webhook headers must map names to strings.');
+      }
+      if (queryParams !== undefined && !isStringArray(queryParams)) throw new Error('Query parameters must be names.');
+      if (bodyParam !== undefined && typeof bodyParam !== 'string') throw new Error('The body parameter must be a name.');
+      return {
+        kind: 'http',
+        url,
+        method: method as HttpToolMethod,
+        headers: (headers as Record<string, string> | undefined) ?? {},
+        ...(queryParams !== undefined ? { queryParams: queryParams as string[] } : {}),
+        ...(bodyParam ? { bodyParam: bodyParam as string } : {}),
+      };
+    }
+    default:
+      throw new Error(`Unknown executor kind "${String(value.kind)}".`);
+  }
+};
+
+export type ToolArgs = Record<string, unknown>;
+
+export type LocalToolHandler = (args: ToolArgs, signal: AbortSignal) => unknown | Promise<unknown>;
+
+const localHandlers = new Map<string, LocalToolHandler>();
+
+export const registerLocalTool = (name: string, handler: LocalToolHandler) => {
+  localHandlers.set(name, handler);
+};
+
+export const localToolNames = () => Array.from(localHandlers.keys());
+
+registerLocalTool('current_time', () => {
+  const now = new Date();
+  return {
+    iso: now.toISOString(),
+    local: now.toLocaleString(),
+    timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+  };
+});
+registerLocalTool('echo', args => args);
+
+const parseBody = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+};
+
+// Rejects once the signal aborts and never resolves
+const whenAborted = (signal: AbortSignal) =>
+  new Promise<never>((_, reject) => {
+    if (signal.aborted) return reject(signal.reason);
+    signal.addEventListener('abort', () => reject(signal.reason), { once: true });
+  });
+
+const abortable = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal.aborted) return reject(signal.reason);
+    const timeout = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timeout);
+      reject(signal.reason);
+    }, { once: true });
+  });
+
+export const formatHeaders = (headers: Record<string, string>) =>
+  Object.entries(headers).map(([name, value]) => `${name}: ${value}`).join('\n');
+
+// One `Name: value` per line
+export const parseHeaders = (text: string) =>
+  Object.fromEntries(
+    text
+      .split('\n')
+      .map(line => line.split(/:(.*)/s).map(part => part.trim()))
+      .filter(([name, value]) => name && value !== undefined)
+  ) as Record<string, string>;
+
+const asParam = (value: unknown) => (typeof value === 'string' ? value : JSON.stringify(value));
+
+const runHttp = async (executor: HttpToolExecutor, args: ToolArgs, signal: AbortSignal) => {
+  if (!executor.url) throw new Error('No webhook URL configured');
+  const rest = { ...args };
+  const filled = executor.url.replace(/\{([^}]+)\}/g, (_, name: string) => {
+    if (rest[name] === undefined) throw new Error(`Missing path parameter "${name}"`);
+    const value = encodeURIComponent(asParam(rest[name]));
+    delete rest[name];
+    return value;
+  });
+  const url = new URL(filled, window.location.href);
+  const addQuery = (key: string) => {
+    if (rest[key] !== undefined) url.searchParams.set(key, asParam(rest[key]));
+    delete rest[key];
+  };
+  (executor.queryParams || []).forEach(addQuery);
+
+  const init: RequestInit = { method: executor.method, headers: { ...executor.headers }, signal };
+  if (executor.method === 'GET' || executor.method === 'DELETE') {
+    Object.keys(rest).forEach(addQuery);
+  } else {
+    init.headers = { 'Content-Type': 'application/json', ...executor.headers };
+    init.body = JSON.stringify(executor.bodyParam ? rest[executor.bodyParam] ?? null : rest);
+  }
+
+  const response = await fetch(url.toString(), init);
+  const body = parseBody(await response.text());
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}${typeof body === 'string' && body ? `: ${body.slice(0, 200)}` : ''}`);
+  }
+  return body;
+};
+
+/**
+ * Runs the executor with the model's arguments. Rejects when the executor
+ * fails or `signal` is aborted.
+ */
+export const runToolExecutor = async (executor: ToolExecutor, args: ToolArgs, signal: AbortSignal): Promise<unknown> => {
+  switch (executor.kind) {
+    case 'mock':
+      if (executor.delayMs > 0) await abortable(executor.delayMs, signal);
+      return parseBody(executor.response);
+    case 'local': {
+      const handler = localHandlers.get(executor.handler);
+      if (!handler) throw new Error(`No local function named "${executor.handler}"`);
+      const result = handler(args, signal);
+      // Local handlers may ignore the signal, so the race makes them abortable anyway
+      return Promise.race([result, whenAborted(signal)]);
+    }
+    case 'http':
+      return runHttp(executor, args, signal);
+    default:
+      throw new Error(`Unknown executor kind "${(executor as { kind?: unknown }).kind}"`);
+  }
+};
@@ -0,0 +1,133 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {
+  Behavior,
+  FunctionCall as ToolCallRequest,
+  FunctionDeclaration,
+  FunctionResponse,
+  LiveServerToolCall,
+  LiveServerToolCallCancellation,
+} from '@google/genai';
+import EventEmitter from 'eventemitter3';
+import { GenAILiveClient } from './genai-live-client';
+import { FunctionCall } from './state';
+import { DEFAULT_TOOL_EXECUTOR, DEFAULT_TOOL_TIMEOUT_MS, runToolExecutor, ToolArgs } from './tool-executors';
+
+export interface ToolRunnerEventTypes {
+  started: (call: ToolCallRequest) => void;
+  finished: (call: ToolCallRequest, response: FunctionResponse, durationMs: number) => void;
+  // The model withdrew the call; no response is sent for it
+  cancelled: (call: ToolCallRequest) => void;
+}
+
+class ToolTimeoutError extends Error {
+  constructor(ms: number) {
+    super(`Timed out after ${ms}ms`);
+  }
+}
+
+const CANCELLED = 'cancelled';
+
+// The declaration sent for the tool in `LiveConnectConfig.tools`
+export const functionDeclaration = (tool: FunctionCall): FunctionDeclaration => ({
+  name: tool.name,
+  description: tool.description,
+  parameters: tool.parameters,
+  behavior: tool.behavior ?? Behavior.BLOCKING,
+});
+
+/**
+ * Runs the tool's executor within the tool's timeout and resolves with the
+ * response sent to the model, `{ output }` or `{ error }`. Aborting
+ * `controller` with a reason of its own rejects with that reason instead.
+ */
+export const invokeTool = async (
+  tool: FunctionCall,
+  args: ToolArgs,
+  controller: AbortController = new AbortController()
+): Promise<Record<string, unknown>> => {
+  const timeoutMs = tool.timeoutMs || DEFAULT_TOOL_TIMEOUT_MS;
+  const timeout = setTimeout(() => controller.abort(new ToolTimeoutError(timeoutMs)), timeoutMs);
+  try {
+    return { output: await runToolExecutor(tool.executor || DEFAULT_TOOL_EXECUTOR, args, controller.signal) };
+  } catch (e: any) {
+    const reason = controller.signal.reason;
+    if (controller.signal.aborted && !(reason instanceof ToolTimeoutError)) throw reason;
+    const error = reason instanceof ToolTimeoutError ? reason : e;
+    return { error: error?.message || String(error) };
+  } finally {
+    clearTimeout(timeout);
+  }
+};
+
+/**
+ * Executes the model's function calls with the executor bound to each tool
+ * and answers every call as soon as it settles, so a slow tool does not hold
+ * back the others. Calls withdrawn by the model are aborted.
+ */
+export class ToolCallRunner {
+  private emitter = new EventEmitter<ToolRunnerEventTypes>();
+  private inFlight: Map<string, AbortController> = new Map();
+
+  constructor(
+    private client: GenAILiveClient,
+    private getTools: () => FunctionCall[]
+  ) {}
+
+  public on<K extends keyof ToolRunnerEventTypes>(event: K, listener: ToolRunnerEventTypes[K]): this {
+    this.emitter.on(event, listener as any);
+    return this;
+  }
+
+  public off<K extends keyof ToolRunnerEventTypes>(event: K, listener: ToolRunnerEventTypes[K]): this {
+    this.emitter.off(event, listener as any);
+    return this;
+  }
+
+  public handle(toolCall: LiveServerToolCall) {
+    (toolCall.functionCalls || []).forEach(call => this.run(call));
+  }
+
+  public cancel(cancellation: LiveServerToolCallCancellation) {
+    (cancellation.ids || []).forEach(id => this.inFlight.get(id)?.abort(CANCELLED));
+  }
+
+  public cancelAll() {
+    this.inFlight.forEach(controller => controller.abort(CANCELLED));
+  }
+
+  private async run(call: ToolCallRequest) {
+    const id = call.id || crypto.randomUUID();
+    const tool = this.getTools().find(t => t.isEnabled && t.name === call.name);
+    const controller = new AbortController();
+    this.inFlight.set(id, controller);
+    this.emitter.emit('started', call);
+
+    const startedAt = Date.now();
+    let result: Record<string, unknown>;
+    try {
+      result = tool
+        ? await invokeTool(tool, call.args || {}, controller)
+        : { error: `Unknown tool "${call.name}"` };
+    } catch {
+      this.emitter.emit('cancelled', call);
+      return;
+    } finally {
+      this.inFlight.delete(id);
+    }
+
+    const response: FunctionResponse = {
+      id: call.id,
+      name: call.name,
+      response: result,
+      // Scheduling only applies to calls the model does not wait for
+      ...(tool?.behavior === Behavior.NON_BLOCKING && tool.scheduling ? { scheduling: tool.scheduling } : {}),
+    };
+    this.emitter.emit('finished', call, response, Date.now() - startedAt);
+    if (this.client.status === 'connected') {
+      this.client.sendToolResponse({ functionResponses: [response] });
+    }
+  }
+}
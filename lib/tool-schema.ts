@@ -0,0 +1,211 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export const SCHEMA_TYPES = ['STRING', 'NUMBER', 'INTEGER', 'BOOLEAN', 'ARRAY', 'OBJECT'] as const;
+export type SchemaType = typeof SCHEMA_TYPES[number];
+
+// Function names may also contain dots, colons and dashes; parameter names may not
+const FUNCTION_NAME_PATTERN = /^[a-zA-Z_][a-zA-Z0-9_.:-]{0,63}$/;
+const PARAMETER_NAME_PATTERN = /^[a-zA-Z_][a-zA-Z0-9_]{0,63}$/;
+
+// Fields of the Gemini `Schema`; anything else is rejected when connecting
+const SCHEMA_KEYS = new Set([
+  'anyOf', 'default', 'description', 'enum', 'example', 'format', 'items',
+  'maxItems', 'maxLength', 'maxProperties', 'maximum', 'minItems', 'minLength',
+  'minProperties', 'minimum', 'nullable', 'pattern', 'properties',
+  'propertyOrdering', 'required', 'title', 'type',
+]);
+
+const COUNT_KEYS = ['maxItems', 'maxLength', 'maxProperties', 'minItems', 'minLength', 'minProperties'];
+
+export interface SchemaIssue {
+  // Where the problem is, e.g. `parameters.properties.orderId.type`
+  path: string;
+  message: string;
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// The properties declared by an OBJECT schema, each itself a schema object
+export const schemaProperties = (schema: unknown): [string, Record<string, unknown>][] =>
+  isPlainObject(schema) && isPlainObject(schema.properties)
+    ? Object.entries(schema.properties)
+      .filter((entry): entry is [string, Record<string, unknown>] => isPlainObject(entry[1]))
+    : [];
+
+export const isParameterName = (name: string) => PARAMETER_NAME_PATTERN.test(name);
+
+export const validateFunctionName = (name: string): string | null => {
+  if (!name) return 'A name is required.';
+  if (!FUNCTION_NAME_PATTERN.test(name)) {
+    return 'Use up to 64 letters, digits, underscores, dots, colons or dashes, starting with a letter or underscore.';
+  }
+  return null;
+};
+
+/**
+ * Checks `schema` against the shape the Live API accepts for function
+ * parameters and returns every problem found, with its path.
+ */
+export const validateSchema = (schema: unknown, path: string = 'parameters'): SchemaIssue[] => {
+  if (!isPlainObject(schema)) return [{ path, message: 'Must be an object.' }];
+  const issues: SchemaIssue[] = [];
+  const issue = (at: string, message: string) => issues.push({ path: `${path}.${at}`, message });
+
+  Object.keys(schema)
+    .filter(key => !SCHEMA_KEYS.has(key))
+    .forEach(key => issue(key, 'Not a supported schema field.'));
+
+  const type = schema.type;
+  if (schema.anyOf === undefined) {
+    if (typeof type !== 'string') {
+      issue('type', `Required; one of ${SCHEMA_TYPES.join(', ')}.`);
+    } else if (!SCHEMA_TYPES.includes(type as SchemaType)) {
+      const upper = type.toUpperCase();
+      issue('type', SCHEMA_TYPES.includes(upper as SchemaType)
+        ? `Types are upper case: use "${upper}".`
+        : `"${type}" is not one of ${SCHEMA_TYPES.join(', ')}.`);
+    }
+  } else if (!Array.isArray(schema.anyOf) || schema.anyOf.length === 0) {
+    issue('anyOf', 'Must be a non-empty array of schemas.');
+  } else {
+    schema.anyOf.forEach((option: unknown, i: number) => issues.push(...validateSchema(option, `${path}.anyOf[${i}]`)));
+  }
+
+  if (schema.description !== undefined && typeof schema.description !== 'string') {
+    issue('description', 'Must be a string.');
+  }
+  if (schema.enum !== undefined) {
+    if (!Array.isArray(schema.enum) || schema.enum.some((v: unknown) => typeof v !== 'string')) {
+      issue('enum', 'Must be an array of strings.');
+    } else if (type !== 'STRING') {
+      issue('enum', 'Only STRING parameters can have an enum.');
+    }
+  }
+  COUNT_KEYS.forEach(key => {
+    const value = schema[key];
+    // Counts are int64 and may be given as numbers or numeric strings
+    if (value !== undefined && !/^\d+$/.test(String(value))) issue(key, 'Must be a whole number.');
+  });
+
+  if (type === 'OBJECT') {
+    const properties = schema.properties ?? {};
+    if (!isPlainObject(properties)) {
+      issue('properties', 'Must be an object of schemas.');
+    } else {
+      Object.entries(properties).forEach(([name, property]) => {
+        if (!isParameterName(name)) {
+          issue(`properties.${name}`, 'Names use up to 64 letters, digits or underscores, starting with a letter or underscore.');
+        }
+        issues.push(...validateSchema(property, `${path}.properties.${name}`));
+      });
+    }
+    if (schema.required !== undefined) {
+      if (!Array.isArray(schema.required) || schema.required.some((r: unknown) => typeof r !== 'string')) {
+        issue('required', 'Must be an array of property names.');
+      } else if (isPlainObject(properties)) {
+        schema.required
+          .filter((name: string) => !(name in properties))
+          .forEach((name: string) => issue('required', `"${name}" is not one of the properties.`));
+      }
+    }
+  } else {
+    if (schema.properties !== undefined) issue('properties', 'Only OBJECT schemas have properties.');
+    if (schema.required !== undefined) issue('required', 'Only OBJECT schemas have required properties.');
+  }
+
+  if (type === 'ARRAY') {
+    if (schema.items === undefined) issue('items', 'ARRAY schemas need an items schema.');
+    else issues.push(...validateSchema(schema.items, `${path}.items`));
+  } else if (schema.items !== undefined) {
+    issue('items', 'Only ARRAY schemas have items.');
+  }
+
+  return issues;
+};
+
+// Function parameters are always an object of named properties
+export const validateParameters = (parameters: unknown): SchemaIssue[] => {
+  if (isPlainObject(parameters) && parameters.type !== undefined && parameters.type !== 'OBJECT') {
+    return [{ path: 'parameters.type', message: 'Function parameters must be an OBJECT.' }];
+  }
+  return validateSchema(parameters);
+};
+
+/**
+ * Form rows
+ */
+export interface PropertyRow {
+  name: string;
+  type: SchemaType;
+  description: string;
+  required: boolean;
+  // STRING only; blank entries are dropped
+  enumValues: string[];
+  // ARRAY only
+  itemType: SchemaType;
+}
+
+export const emptyPropertyRow = (): PropertyRow => ({
+  name: '',
+  type: 'STRING',
+  description: '',
+  required: false,
+  enumValues: [],
+  itemType: 'STRING',
+});
+
+const isScalarType = (type: unknown) => typeof type === 'string' && type !== 'OBJECT' && type !== 'ARRAY';
+
+/**
+ * Rows for the form builder, or null when the schema uses something the
+ * form cannot show, such as nested objects, and has to be edited as JSON.
+ */
+export const schemaToRows = (parameters: unknown): PropertyRow[] | null => {
+  if (!isPlainObject(parameters)) return null;
+  if (!Object.keys(parameters).every(key => ['type', 'properties', 'required'].includes(key))) return null;
+  const properties = parameters.properties ?? {};
+  if (!isPlainObject(properties)) return null;
+  const required: unknown[] = Array.isArray(parameters.required) ? parameters.required : [];
+  const rows: PropertyRow[] = [];
+  for (const [name, property] of Object.entries(properties)) {
+    if (!isPlainObject(property) || !SCHEMA_TYPES.includes(property.type as SchemaType)) return null;
+    const type = property.type as SchemaType;
+    const simple = Object.keys(property).every(key => ['type', 'description', 'enum', 'items'].includes(key));
+    if (!simple) return null;
+    if (type === 'OBJECT') return null;
+    const items = property.items;
+    if (type === 'ARRAY' && !(isPlainObject(items) && isScalarType(items.type) && Object.keys(items).length === 1)) {
+      return null;
+    }
+    rows.push({
+      name,
+      type,
+      description: typeof property.description === 'string' ? property.description : '',
+      required: required.includes(name),
+      enumValues: Array.isArray(property.enum) ? property.enum.map(String) : [],
+      itemType: isPlainObject(items) ? items.type as SchemaType : 'STRING',
+    });
+  }
+  return rows;
+};
+
+export const rowsToSchema = (rows: PropertyRow[]) => {
+  const properties = Object.fromEntries(rows.map(row => {
+    const property: Record<string, unknown> = { type: row.type };
+    if (row.description) property.description = row.description;
+    const enumValues = row.enumValues.map(v => v.trim()).filter(Boolean);
+    if (row.type === 'STRING' && enumValues.length > 0) property.enum = enumValues;
+    if (row.type === 'ARRAY') property.items = { type: row.itemType };
+    return [row.name, property];
+  }));
+  const required = rows.filter(row => row.required).map(row => row.name);
+  return {
+    type: 'OBJECT',
+    properties,
+    ...(required.length > 0 ? { required } : {}),
+  };
+};
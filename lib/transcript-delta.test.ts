@@ -0,0 +1,90 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MAX_TRACKED_SESSIONS, SESSION_PROGRESS_TTL_MS, TranscriptDeltaTracker } from './transcript-delta';
+
+describe('TranscriptDeltaTracker', () => {
+  let tracker: TranscriptDeltaTracker;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    tracker = new TranscriptDeltaTracker();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('yields only the paragraphs added since the last row', () => {
+    expect(tracker.diff('s1', ['Good morning.', 'Today we review the plan.'])).toEqual([
+      { index: 0, text: 'Good morning.', kind: 'new', previousId: undefined },
+      { index: 1, text: 'Today we review the plan.', kind: 'new', previousId: undefined },
+    ]);
+    expect(tracker.diff('s1', ['Good morning.', 'Today we review the plan.', 'First, the budget.'])).toEqual([
+      { index: 2, text: 'First, the budget.', kind: 'new', previousId: undefined },
+    ]);
+  });
+
+  it('ignores whitespace changes and paragraphs shifted by an insertion', () => {
+    tracker.diff('s1', ['Good morning.', 'First, the budget.']);
+    expect(tracker.diff('s1', ['Good   morning. ', 'First, the budget.'])).toEqual([]);
+    expect(tracker.diff('s1', ['Good morning.', 'A late note.', 'First, the budget.'])).toEqual([
+      { index: 1, text: 'A late note.', kind: 'new', previousId: undefined },
+    ]);
+  });
+
+  it('reports a rewritten paragraph as an edit of the one it replaces', () => {
+    tracker.diff('s1', ['Good morning.', 'The budget is ten.']);
+    tracker.setParagraphId('s1', 1, 'p-2');
+    expect(tracker.diff('s1', ['Good morning.', 'The budget is twelve.'])).toEqual([
+      { index: 1, text: 'The budget is twelve.', kind: 'edited', previousId: 'p-2' },
+    ]);
+  });
+
+  it('matches repeated paragraphs one to one', () => {
+    tracker.diff('s1', ['Yes.']);
+    expect(tracker.diff('s1', ['Yes.', 'Yes.'])).toEqual([
+      { index: 1, text: 'Yes.', kind: 'new', previousId: undefined },
+    ]);
+  });
+
+  it('keeps sessions apart', () => {
+    tracker.diff('s1', ['Good morning.']);
+    expect(tracker.diff('s2', ['Good morning.'])).toHaveLength(1);
+  });
+
+  it('forgets sessions not updated within the time limit', () => {
+    tracker.diff('old', ['Good morning.']);
+    vi.advanceTimersByTime(SESSION_PROGRESS_TTL_MS);
+    tracker.diff('recent', ['Good evening.']);
+
+    expect(Object.keys(tracker.snapshot())).toEqual(['recent']);
+  });
+
+  it('keeps only the most recently updated sessions', () => {
+    for (let i = 0; i <= MAX_TRACKED_SESSIONS; i++) {
+      tracker.diff(`s${i}`, ['Good morning.']);
+      vi.advanceTimersByTime(1000);
+    }
+    // Updating the first session makes it the most recent one
+    tracker.diff('s1', ['Good morning.', 'Next item.']);
+
+    const sessions = Object.keys(tracker.snapshot());
+    expect(sessions).toHaveLength(MAX_TRACKED_SESSIONS);
+    expect(sessions).not.toContain('s0');
+    expect(sessions.at(-1)).toBe('s1');
+  });
+
+  it('drops expired sessions from a restored snapshot', () => {
+    tracker.diff('s1', ['Good morning.']);
+    const saved = tracker.snapshot();
+    vi.advanceTimersByTime(SESSION_PROGRESS_TTL_MS);
+
+    const restored = new TranscriptDeltaTracker();
+    restored.restore(saved);
+    expect(restored.snapshot()).toEqual({});
+    expect(restored.diff('s1', ['Good morning.'])).toHaveLength(1);
+  });
+});
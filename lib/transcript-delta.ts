@@ -0,0 +1,125 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export type ParagraphChangeKind = 'new' | 'edited';
+
+export interface ParagraphChange {
+  index: number;
+  text: string;
+  kind: ParagraphChangeKind;
+  // Id the consumer assigned to the paragraph before it was edited
+  previousId?: string;
+}
+
+export interface ConsumedParagraph {
+  hash: string;
+  id?: string;
+}
+
+export interface SessionProgress {
+  paragraphs: ConsumedParagraph[];
+  updatedAt: number;
+}
+
+// Sessions not updated for this long, or beyond the most recent ones, are forgotten
+export const SESSION_PROGRESS_TTL_MS = 24 * 60 * 60 * 1000;
+export const MAX_TRACKED_SESSIONS = 20;
+
+// Whitespace-only differences should not cause a paragraph to be spoken again
+const normalize = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+// 32-bit FNV-1a, enough to tell paragraphs of one session apart
+export const hashParagraph = (text: string): string => {
+  const normalized = normalize(text);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < normalized.length; i++) {
+    hash ^= normalized.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+/**
+ * Remembers which paragraphs of each session's `full_transcript_text` have
+ * already been consumed, so a row that grows by one line only yields that
+ * line instead of the whole transcript.
+ */
+export class TranscriptDeltaTracker {
+  private sessions: Map<string, SessionProgress> = new Map();
+
+  /**
+   * Compares the current paragraphs of a session with what was consumed
+   * before and records the new state. A paragraph counts as `edited` when it
+   * takes the place of a consumed paragraph that no longer appears anywhere
+   * in the transcript; paragraphs merely shifted by an insertion are skipped.
+   */
+  diff(sessionId: string, paragraphs: string[]): ParagraphChange[] {
+    const previous = this.sessions.get(sessionId)?.paragraphs || [];
+    const hashes = paragraphs.map(hashParagraph);
+    const currentHashes = new Set(hashes);
+
+    // Multiset of consumed hashes so repeated lines are matched one-to-one
+    const available = new Map<string, ConsumedParagraph[]>();
+    previous.forEach(p => {
+      const list = available.get(p.hash) || [];
+      list.push(p);
+      available.set(p.hash, list);
+    });
+
+    const changes: ParagraphChange[] = [];
+    const next: ConsumedParagraph[] = hashes.map((hash, index) => {
+      const match = available.get(hash)?.shift();
+      if (match) return match;
+
+      const replaced = previous[index];
+      const isEdit = !!replaced && !currentHashes.has(replaced.hash);
+      changes.push({
+        index,
+        text: paragraphs[index],
+        kind: isEdit ? 'edited' : 'new',
+        previousId: isEdit ? replaced.id : undefined,
+      });
+      return { hash };
+    });
+
+    this.sessions.delete(sessionId);
+    this.sessions.set(sessionId, { paragraphs: next, updatedAt: Date.now() });
+    this.prune();
+    return changes;
+  }
+
+  setParagraphId(sessionId: string, index: number, id: string) {
+    const paragraph = this.sessions.get(sessionId)?.paragraphs[index];
+    if (paragraph) paragraph.id = id;
+  }
+
+  snapshot(): Record<string, SessionProgress> {
+    this.prune();
+    return Object.fromEntries(this.sessions);
+  }
+
+  restore(snapshot: Record<string, SessionProgress>) {
+    const sessions = Object.entries(snapshot).sort(([, a], [, b]) => (a.updatedAt || 0) - (b.updatedAt || 0));
+    this.sessions = new Map(sessions);
+    this.prune();
+  }
+
+  // Sessions are kept in the order they were last updated, oldest first
+  private prune() {
+    const expired = Date.now() - SESSION_PROGRESS_TTL_MS;
+    const excess = this.sessions.size - MAX_TRACKED_SESSIONS;
+    Array.from(this.sessions.entries())
+      .filter(([, progress], i) => i < excess || !(progress.updatedAt > expired))
+      .forEach(([sessionId]) => this.sessions.delete(sessionId));
+  }
+
+  reset(sessionId?: string) {
+    if (sessionId) {
+      this.sessions.delete(sessionId);
+    } else {
+      this.sessions.clear();
+    }
+  }
+}
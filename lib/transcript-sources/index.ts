@@ -0,0 +1,41 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { LongPollTranscriptSource } from './long-poll-source';
+import { ReplayTranscriptSource } from './replay-source';
+import { SupabaseTranscriptSource } from './supabase-source';
+import {
+  TranscriptSource,
+  TranscriptSourceConfig,
+  TranscriptSourceKind,
+  TranscriptSubscription,
+} from './types';
+import { WebSocketTranscriptSource } from './websocket-source';
+
+export * from './types';
+export { fetchSupabaseSessions } from './supabase-source';
+
+export const TRANSCRIPT_SOURCE_LABELS: Record<TranscriptSourceKind, string> = {
+  supabase: 'Eburon DB (Supabase)',
+  websocket: 'WebSocket',
+  'long-poll': 'HTTP Long-poll',
+  replay: 'Local File Replay',
+};
+
+export const createTranscriptSource = (
+  config: TranscriptSourceConfig,
+  subscription: TranscriptSubscription
+): TranscriptSource => {
+  switch (config.kind) {
+    case 'websocket':
+      return new WebSocketTranscriptSource(config.url, subscription);
+    case 'long-poll':
+      return new LongPollTranscriptSource(config.url, subscription, config.pollIntervalMs);
+    case 'replay':
+      return new ReplayTranscriptSource(config.replayText, config.replayFileName, config.replayIntervalMs);
+    case 'supabase':
+    default:
+      return new SupabaseTranscriptSource(subscription, config.pollIntervalMs);
+  }
+};
@@ -0,0 +1,95 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {
+  BaseTranscriptSource,
+  normalizeTranscriptPayload,
+  TranscriptSubscription,
+  withSubscriptionParams,
+} from './types';
+
+const MAX_BACKOFF_MS = 30000;
+
+/**
+ * Repeatedly requests `url?since=<updated_at>` and expects the server to hold
+ * the request open until a newer row exists. A `204` or empty body simply
+ * starts the next request; errors back off exponentially.
+ */
+export class LongPollTranscriptSource extends BaseTranscriptSource {
+  public readonly kind = 'long-poll';
+
+  private running = false;
+  private abortController: AbortController | null = null;
+  private since: string | null = null;
+
+  constructor(
+    private url: string,
+    private subscription: TranscriptSubscription,
+    private minIntervalMs: number = 1000
+  ) {
+    super();
+  }
+
+  public start() {
+    if (this.running) return;
+    if (!this.url) {
+      this.setStatus('error');
+      this.emitError(new Error('Long-poll source requires a URL'));
+      return;
+    }
+    this.running = true;
+    this.setStatus('connecting');
+    this.loop();
+  }
+
+  public stop() {
+    this.running = false;
+    this.abortController?.abort();
+    this.abortController = null;
+    this.setStatus('idle');
+  }
+
+  private async loop() {
+    let failures = 0;
+    while (this.running) {
+      const startedAt = Date.now();
+      this.abortController = new AbortController();
+      try {
+        const requestUrl = new URL(withSubscriptionParams(this.url, this.subscription));
+        if (this.since) requestUrl.searchParams.set('since', this.since);
+
+        const response = await fetch(requestUrl.toString(), {
+          signal: this.abortController.signal,
+          headers: { Accept: 'application/json' },
+        });
+        if (!this.running) return;
+        if (!response.ok && response.status !== 204) {
+          throw new Error(`Long-poll request failed with status ${response.status}`);
+        }
+
+        failures = 0;
+        this.setStatus('live');
+
+        const body = response.status === 204 ? '' : await response.text();
+        if (body) {
+          normalizeTranscriptPayload(JSON.parse(body)).forEach(t => {
+            if (!this.since || t.updated_at > this.since) this.since = t.updated_at;
+            this.emitTranscript(t);
+          });
+        }
+      } catch (e: any) {
+        if (!this.running || e?.name === 'AbortError') return;
+        failures++;
+        this.setStatus('error');
+        console.warn('Long-poll transcript source error:', e);
+      }
+
+      // Guard against servers that answer immediately instead of holding the request
+      const backoff = failures > 0
+        ? Math.min(500 * Math.pow(2, failures), MAX_BACKOFF_MS)
+        : Math.max(0, this.minIntervalMs - (Date.now() - startedAt));
+      if (backoff > 0) await new Promise(resolve => setTimeout(resolve, backoff));
+    }
+  }
+}
@@ -0,0 +1,137 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase, Transcript } from '../supabase';
+import { BackgroundTimer } from '../background-timer';
+import {
+  BaseTranscriptSource,
+  summarizeTranscript,
+  TranscriptSessionSummary,
+  TranscriptSubscription,
+} from './types';
+
+const ACTIVE_SESSION_LOOKBACK_ROWS = 100;
+
+/**
+ * Lists recently updated sessions, newest first, for the session picker.
+ */
+export const fetchSupabaseSessions = async (
+  userId?: string
+): Promise<TranscriptSessionSummary[]> => {
+  let query = supabase
+    .from('transcripts')
+    .select('id, session_id, user_id, source_language, created_at, updated_at')
+    .order('updated_at', { ascending: false })
+    .limit(ACTIVE_SESSION_LOOKBACK_ROWS);
+  if (userId) query = query.eq('user_id', userId);
+
+  const { data, error } = await query;
+  if (error) throw new Error(error.message);
+
+  const sessions = new Map<string, TranscriptSessionSummary>();
+  (data as Transcript[] || []).forEach(row => {
+    if (row.session_id && !sessions.has(row.session_id)) {
+      sessions.set(row.session_id, summarizeTranscript(row));
+    }
+  });
+  return Array.from(sessions.values());
+};
+
+/**
+ * Follows the `transcripts` table through realtime `postgres_changes`, with
+ * background polling as a fallback for missed or dropped realtime events.
+ * A followed session is filtered server-side; otherwise rows of all sessions
+ * are delivered and the consumer picks what to follow.
+ */
+export class SupabaseTranscriptSource extends BaseTranscriptSource {
+  public readonly kind = 'supabase';
+
+  private timer: BackgroundTimer | null = null;
+  private intervalId: string | null = null;
+  private channel: RealtimeChannel | null = null;
+
+  constructor(
+    private subscription: TranscriptSubscription,
+    private pollIntervalMs: number = 5000
+  ) {
+    super();
+  }
+
+  public start() {
+    if (this.timer) return;
+    this.setStatus('connecting');
+
+    this.timer = new BackgroundTimer();
+    this.intervalId = this.timer.setInterval(() => this.fetchLatest(), this.pollIntervalMs);
+
+    // Realtime supports a single filter; narrow by session first, else by user
+    const { mode, sessionId, userId } = this.subscription;
+    let filter: string | undefined;
+    if (mode === 'session' && sessionId) filter = `session_id=eq.${sessionId}`;
+    else if (userId) filter = `user_id=eq.${userId}`;
+
+    this.channel = supabase
+      .channel(`bridge-realtime-${filter || 'all'}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'transcripts', filter },
+        (payload) => {
+          if (payload.new) this.emitTranscript(payload.new as Transcript);
+        }
+      )
+      .subscribe();
+
+    this.fetchLatest();
+  }
+
+  public stop() {
+    if (this.timer) {
+      if (this.intervalId) this.timer.clearInterval(this.intervalId);
+      this.timer.terminate();
+      this.timer = null;
+      this.intervalId = null;
+    }
+    if (this.channel) {
+      supabase.removeChannel(this.channel);
+      this.channel = null;
+    }
+    this.setStatus('idle');
+  }
+
+  private async fetchLatest() {
+    try {
+      const { mode, sessionId, userId } = this.subscription;
+      let query = supabase.from('transcripts').select('*');
+      if (mode === 'session' && sessionId) query = query.eq('session_id', sessionId);
+      if (userId) query = query.eq('user_id', userId);
+
+      // Newest mode polls the most recently started session, so a concurrent
+      // older meeting being updated does not take over
+      const orderColumn = mode === 'newest' ? 'created_at' : 'updated_at';
+
+      // Use maybeSingle to safely handle 0 or 1 rows
+      const { data, error } = await query
+        .order(orderColumn, { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (!this.timer) return;
+
+      if (error) {
+        console.warn('Supabase polling warning:', error.message);
+        this.setStatus('error');
+        return;
+      }
+
+      this.setStatus('live');
+      if (data) {
+        this.emitTranscript(data as Transcript);
+      }
+    } catch (err) {
+      console.warn('Supabase connection error - retrying:', err);
+      this.setStatus('error');
+    }
+  }
+}
@@ -0,0 +1,188 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import EventEmitter from 'eventemitter3';
+import { Transcript } from '../supabase';
+
+export type TranscriptSourceKind = 'supabase' | 'websocket' | 'long-poll' | 'replay';
+
+export type TranscriptSourceStatus = 'idle' | 'connecting' | 'live' | 'error' | 'ended';
+
+export interface TranscriptSourceConfig {
+  kind: TranscriptSourceKind;
+  // Endpoint for the websocket and long-poll sources
+  url: string;
+  pollIntervalMs: number;
+  // Contents of a local file for the replay source
+  replayText: string;
+  replayFileName: string;
+  replayIntervalMs: number;
+}
+
+export const DEFAULT_TRANSCRIPT_SOURCE_CONFIG: TranscriptSourceConfig = {
+  kind: 'supabase',
+  url: '',
+  pollIntervalMs: 5000,
+  replayText: '',
+  replayFileName: '',
+  replayIntervalMs: 3000,
+};
+
+export type TranscriptFollowMode = 'session' | 'newest';
+
+/**
+ * Which transcripts the bridge follows. `newest` locks onto the most recently
+ * started session and only moves on when a newer one begins, so updates to an
+ * older concurrent meeting never take over.
+ */
+export interface TranscriptSubscription {
+  mode: TranscriptFollowMode;
+  sessionId: string;
+  // Optional, narrows either mode to a single speaker account
+  userId: string;
+}
+
+export const DEFAULT_TRANSCRIPT_SUBSCRIPTION: TranscriptSubscription = {
+  mode: 'session',
+  sessionId: '',
+  userId: '',
+};
+
+export interface TranscriptSessionSummary {
+  session_id: string;
+  user_id: string;
+  source_language: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export const summarizeTranscript = (t: Transcript): TranscriptSessionSummary => ({
+  session_id: t.session_id,
+  user_id: t.user_id,
+  source_language: t.source_language,
+  created_at: t.created_at,
+  updated_at: t.updated_at,
+});
+
+export const matchesSubscription = (
+  t: Transcript,
+  subscription: TranscriptSubscription
+): boolean => {
+  if (subscription.userId && t.user_id !== subscription.userId) return false;
+  if (subscription.mode === 'session') {
+    return !!subscription.sessionId && t.session_id === subscription.sessionId;
+  }
+  return true;
+};
+
+/**
+ * Appends the subscription as `session_id` / `user_id` query parameters so
+ * feeds that support it can filter server-side.
+ */
+export const withSubscriptionParams = (url: string, subscription: TranscriptSubscription) => {
+  const target = new URL(url, window.location.href);
+  if (subscription.mode === 'session' && subscription.sessionId) {
+    target.searchParams.set('session_id', subscription.sessionId);
+  }
+  if (subscription.userId) {
+    target.searchParams.set('user_id', subscription.userId);
+  }
+  return target.toString();
+};
+
+export interface TranscriptSourceEventTypes {
+  transcript: (transcript: Transcript) => void;
+  status: (status: TranscriptSourceStatus) => void;
+  error: (error: Error) => void;
+}
+
+/**
+ * A feed of `Transcript` rows. Implementations emit a `transcript` event each
+ * time a row is created or updated, carrying the full row as stored upstream.
+ */
+export interface TranscriptSource {
+  readonly kind: TranscriptSourceKind;
+  readonly status: TranscriptSourceStatus;
+  start(): void;
+  stop(): void;
+  on<K extends keyof TranscriptSourceEventTypes>(
+    event: K,
+    listener: TranscriptSourceEventTypes[K]
+  ): this;
+  off<K extends keyof TranscriptSourceEventTypes>(
+    event: K,
+    listener: TranscriptSourceEventTypes[K]
+  ): this;
+}
+
+export abstract class BaseTranscriptSource implements TranscriptSource {
+  public abstract readonly kind: TranscriptSourceKind;
+  public emitter = new EventEmitter<TranscriptSourceEventTypes>();
+
+  private _status: TranscriptSourceStatus = 'idle';
+  public get status() {
+    return this._status;
+  }
+
+  public abstract start(): void;
+  public abstract stop(): void;
+
+  public on<K extends keyof TranscriptSourceEventTypes>(
+    event: K,
+    listener: TranscriptSourceEventTypes[K]
+  ): this {
+    this.emitter.on(event, listener as any);
+    return this;
+  }
+
+  public off<K extends keyof TranscriptSourceEventTypes>(
+    event: K,
+    listener: TranscriptSourceEventTypes[K]
+  ): this {
+    this.emitter.off(event, listener as any);
+    return this;
+  }
+
+  protected setStatus(status: TranscriptSourceStatus) {
+    if (this._status === status) return;
+    this._status = status;
+    this.emitter.emit('status', status);
+  }
+
+  protected emitTranscript(transcript: Transcript) {
+    this.emitter.emit('transcript', transcript);
+  }
+
+  protected emitError(error: unknown) {
+    const err = error instanceof Error ? error : new Error(String(error));
+    this.emitter.emit('error', err);
+  }
+}
+
+/**
+ * Accepts the payload shapes external feeds tend to send: a bare row, a row
+ * wrapped in `{ data }` / `{ new }`, or an array of rows.
+ */
+export const normalizeTranscriptPayload = (payload: unknown): Transcript[] => {
+  if (!payload) return [];
+  if (Array.isArray(payload)) {
+    return payload.flatMap(normalizeTranscriptPayload);
+  }
+  if (typeof payload !== 'object') return [];
+  const record = payload as Record<string, any>;
+  if (record.data) return normalizeTranscriptPayload(record.data);
+  if (record.new) return normalizeTranscriptPayload(record.new);
+  if (typeof record.full_transcript_text !== 'string') return [];
+
+  const now = new Date().toISOString();
+  return [{
+    id: String(record.id ?? record.session_id ?? 'external'),
+    session_id: String(record.session_id ?? record.id ?? 'external'),
+    user_id: String(record.user_id ?? ''),
+    source_language: String(record.source_language ?? ''),
+    full_transcript_text: record.full_transcript_text,
+    created_at: record.created_at ?? now,
+    updated_at: record.updated_at ?? now,
+  }];
+};
@@ -0,0 +1,97 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {
+  BaseTranscriptSource,
+  normalizeTranscriptPayload,
+  TranscriptSubscription,
+  withSubscriptionParams,
+} from './types';
+
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+/**
+ * Receives transcript rows as JSON messages over a WebSocket and reconnects
+ * with exponential backoff while started.
+ */
+export class WebSocketTranscriptSource extends BaseTranscriptSource {
+  public readonly kind = 'websocket';
+
+  private socket: WebSocket | null = null;
+  private running = false;
+  private reconnectAttempts = 0;
+  private reconnectTimeout: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private url: string, private subscription: TranscriptSubscription) {
+    super();
+  }
+
+  public start() {
+    if (this.running) return;
+    if (!this.url) {
+      this.setStatus('error');
+      this.emitError(new Error('WebSocket source requires a URL'));
+      return;
+    }
+    this.running = true;
+    this.open();
+  }
+
+  public stop() {
+    this.running = false;
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
+    }
+    this.socket?.close();
+    this.socket = null;
+    this.setStatus('idle');
+  }
+
+  private open() {
+    this.setStatus('connecting');
+    try {
+      this.socket = new WebSocket(withSubscriptionParams(this.url, this.subscription));
+    } catch (e) {
+      this.emitError(e);
+      this.scheduleReconnect();
+      return;
+    }
+
+    this.socket.onopen = () => {
+      this.reconnectAttempts = 0;
+      this.setStatus('live');
+    };
+
+    this.socket.onmessage = (event: MessageEvent) => {
+      try {
+        const payload = JSON.parse(typeof event.data === 'string' ? event.data : '');
+        normalizeTranscriptPayload(payload).forEach(t => this.emitTranscript(t));
+      } catch (e) {
+        console.warn('Ignoring malformed transcript message:', e);
+      }
+    };
+
+    this.socket.onerror = () => {
+      this.setStatus('error');
+    };
+
+    this.socket.onclose = () => {
+      this.socket = null;
+      if (this.running) this.scheduleReconnect();
+    };
+  }
+
+  private scheduleReconnect() {
+    if (!this.running) return;
+    this.setStatus('error');
+    this.reconnectAttempts++;
+    const delay = Math.min(500 * Math.pow(2, this.reconnectAttempts), MAX_RECONNECT_DELAY_MS);
+    console.warn(`Transcript WebSocket closed. Reconnecting in ${delay}ms...`);
+    this.reconnectTimeout = setTimeout(() => {
+      this.reconnectTimeout = null;
+      if (this.running) this.open();
+    }, delay);
+  }
+}
@@ -0,0 +1,156 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { idbClear, idbDelete, idbGet, idbGetAll, idbSet } from './idb';
+import { hashParagraph } from './transcript-delta';
+
+export interface TranslationMemorySettings {
+  enabled: boolean;
+  maxEntries: number;
+  maxMegabytes: number;
+}
+
+export const DEFAULT_TRANSLATION_MEMORY: TranslationMemorySettings = {
+  enabled: true,
+  maxEntries: 500,
+  maxMegabytes: 64,
+};
+
+// Everything that changes what a line sounds like once translated
+export interface MemoryKeyParts {
+  sourceText: string;
+  language: string;
+  voice: string;
+  style: string;
+  speechRate: number;
+  // `glossaryFingerprint` of the glossary for `language`
+  glossary: string;
+}
+
+/**
+ * Metadata lives in the 'memory' store and the PCM audio in 'memory-audio',
+ * so eviction can scan entries without loading any audio.
+ */
+export interface MemoryEntry extends MemoryKeyParts {
+  key: string;
+  translation: string;
+  bytes: number;
+  createdAt: number;
+  lastUsedAt: number;
+  hits: number;
+}
+
+const normalize = (text: string) => text.trim().replace(/\s+/g, ' ');
+
+export const memoryKey = (parts: MemoryKeyParts) =>
+  [parts.language, parts.voice, parts.style, parts.speechRate, parts.glossary, hashParagraph(parts.sourceText)].join('|');
+
+const isSameLine = (entry: MemoryEntry, parts: MemoryKeyParts) =>
+  normalize(entry.sourceText) === normalize(parts.sourceText) &&
+  entry.language === parts.language &&
+  entry.voice === parts.voice &&
+  entry.style === parts.style &&
+  entry.speechRate === parts.speechRate &&
+  entry.glossary === parts.glossary;
+
+/**
+ * Returns the cached translation and audio for an exact match of the line,
+ * or null. Hits refresh the entry's position in the LRU order.
+ */
+export const lookupMemory = async (
+  parts: MemoryKeyParts
+): Promise<{ entry: MemoryEntry; audio: Uint8Array } | null> => {
+  try {
+    const key = memoryKey(parts);
+    const entry = await idbGet<MemoryEntry>('memory', key);
+    if (!entry || !isSameLine(entry, parts)) return null;
+    const audio = await idbGet<ArrayBuffer>('memory-audio', key);
+    if (!audio) return null;
+
+    idbSet('memory', key, { ...entry, lastUsedAt: Date.now(), hits: entry.hits + 1 })
+      .catch(e => console.warn('Failed to update translation memory:', e));
+    return { entry, audio: new Uint8Array(audio) };
+  } catch (e) {
+    console.warn('Failed to read translation memory:', e);
+    return null;
+  }
+};
+
+const evict = async (settings: TranslationMemorySettings) => {
+  const entries = await idbGetAll<MemoryEntry>('memory');
+  const maxBytes = settings.maxMegabytes * 1024 * 1024;
+  let count = entries.length;
+  let bytes = entries.reduce((sum, e) => sum + e.bytes, 0);
+  if (count <= settings.maxEntries && bytes <= maxBytes) return;
+
+  const oldestFirst = [...entries].sort((a, b) => a.lastUsedAt - b.lastUsedAt);
+  for (const entry of oldestFirst) {
+    if (count <= settings.maxEntries && bytes <= maxBytes) break;
+    await idbDelete('memory-audio', entry.key);
+    await idbDelete('memory', entry.key);
+    count -= 1;
+    bytes -= entry.bytes;
+  }
+};
+
+export const storeMemory = async (
+  parts: MemoryKeyParts,
+  translation: string,
+  audio: Uint8Array,
+  settings: TranslationMemorySettings
+) => {
+  if (!translation.trim() || audio.byteLength === 0) return;
+  // A single line larger than the whole cache is not worth keeping
+  if (audio.byteLength > settings.maxMegabytes * 1024 * 1024) return;
+
+  const key = memoryKey(parts);
+  const now = Date.now();
+  const entry: MemoryEntry = {
+    ...parts,
+    sourceText: normalize(parts.sourceText),
+    key,
+    translation: translation.trim(),
+    bytes: audio.byteLength,
+    createdAt: now,
+    lastUsedAt: now,
+    hits: 0,
+  };
+  try {
+    // Audio first, so an entry is never visible without its audio
+    await idbSet('memory-audio', key, audio.slice().buffer);
+    await idbSet('memory', key, entry);
+    await evict(settings);
+  } catch (e) {
+    console.warn('Failed to store translation memory:', e);
+  }
+};
+
+export const memoryStats = async () => {
+  try {
+    const entries = await idbGetAll<MemoryEntry>('memory');
+    return {
+      entries: entries.length,
+      bytes: entries.reduce((sum, e) => sum + e.bytes, 0),
+    };
+  } catch (e) {
+    return { entries: 0, bytes: 0 };
+  }
+};
+
+export const clearMemory = async () => {
+  await idbClear('memory-audio');
+  await idbClear('memory');
+};
+
+// Joins the PCM chunks of one segment into a single buffer
+export const concatAudio = (chunks: Uint8Array[]) => {
+  const total = chunks.reduce((sum, c) => sum + c.byteLength, 0);
+  const audio = new Uint8Array(total);
+  let offset = 0;
+  chunks.forEach(chunk => {
+    audio.set(chunk, offset);
+    offset += chunk.byteLength;
+  });
+  return audio;
+};
@@ -0,0 +1,206 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import EventEmitter from 'eventemitter3';
+import { supabase, Translation } from './supabase';
+import { idbDelete, idbGetAll, idbSet } from './idb';
+import { BackgroundTimer } from './background-timer';
+
+const BATCH_SIZE = 20;
+// Rows wait this long for company before a batch is sent
+const BATCH_DELAY_MS = 2000;
+const RETRY_BASE_DELAY_MS = 2000;
+const RETRY_MAX_DELAY_MS = 60000;
+// After this many failed inserts a row is parked until retried by hand
+const MAX_ATTEMPTS = 8;
+
+// Columns of the original schema; anything else may be missing on older tables
+const REQUIRED_COLUMNS = ['meeting_id', 'user_id', 'original_text', 'translated_text', 'language'];
+
+// Name of the unknown column from a PostgREST or Postgres error, if any
+const unknownColumn = (error: { code?: string; message: string }): string | null => {
+  if (error.code !== 'PGRST204' && error.code !== '42703') return null;
+  const match = error.message.match(/'([^']+)' column|column "([^"]+)"/);
+  return match ? match[1] || match[2] : null;
+};
+
+export interface OutboxRecord {
+  id: string;
+  row: Translation;
+  attempts: number;
+  nextAttemptAt: number;
+  failed: boolean;
+  lastError?: string;
+}
+
+export interface OutboxStats {
+  pending: number;
+  failed: number;
+  lastError: string | null;
+}
+
+export interface OutboxEventTypes {
+  change: (stats: OutboxStats) => void;
+}
+
+/**
+ * Queues translation rows for Supabase, inserting them in batches off the
+ * playback path. Rows are kept in IndexedDB until the insert succeeds, so
+ * they survive reloads and database outages.
+ */
+export class TranslationOutbox {
+  private emitter = new EventEmitter<OutboxEventTypes>();
+  private records: Map<string, OutboxRecord> = new Map();
+  private timer: BackgroundTimer | null = null;
+  private loading: Promise<void> | null = null;
+  private flushing = false;
+  private lastError: string | null = null;
+  // Optional columns the table turned out not to have, left out of every insert
+  private missingColumns: Set<string> = new Set();
+
+  public on<K extends keyof OutboxEventTypes>(event: K, listener: OutboxEventTypes[K]): this {
+    this.emitter.on(event, listener as any);
+    return this;
+  }
+
+  public off<K extends keyof OutboxEventTypes>(event: K, listener: OutboxEventTypes[K]): this {
+    this.emitter.off(event, listener as any);
+    return this;
+  }
+
+  public get stats(): OutboxStats {
+    const all = Array.from(this.records.values());
+    return {
+      pending: all.filter(r => !r.failed).length,
+      failed: all.filter(r => r.failed).length,
+      lastError: this.lastError,
+    };
+  }
+
+  public start() {
+    if (this.timer) return;
+    this.timer = new BackgroundTimer();
+    this.timer.setInterval(() => this.flush(), 1000);
+    this.loading = this.load();
+  }
+
+  public stop() {
+    this.timer?.terminate();
+    this.timer = null;
+  }
+
+  public enqueue(row: Translation) {
+    const record: OutboxRecord = {
+      id: crypto.randomUUID(),
+      row,
+      attempts: 0,
+      nextAttemptAt: Date.now() + BATCH_DELAY_MS,
+      failed: false,
+    };
+    this.records.set(record.id, record);
+    this.save(record);
+    this.emitChange();
+  }
+
+  // Gives parked rows a fresh set of attempts
+  public retryFailed() {
+    this.records.forEach(record => {
+      if (!record.failed) return;
+      record.failed = false;
+      record.attempts = 0;
+      record.nextAttemptAt = Date.now();
+      this.save(record);
+    });
+    this.emitChange();
+    this.flush();
+  }
+
+  private async load() {
+    try {
+      const stored = await idbGetAll<OutboxRecord>('outbox');
+      stored.forEach(record => {
+        if (!this.records.has(record.id)) this.records.set(record.id, record);
+      });
+      this.emitChange();
+    } catch (e) {
+      console.warn('Failed to load the translation outbox:', e);
+    }
+  }
+
+  private save(record: OutboxRecord) {
+    idbSet('outbox', record.id, record).catch(e => console.warn('Failed to persist outbox record:', e));
+  }
+
+  private remove(id: string) {
+    this.records.delete(id);
+    idbDelete('outbox', id).catch(e => console.warn('Failed to delete outbox record:', e));
+  }
+
+  private emitChange() {
+    this.emitter.emit('change', this.stats);
+  }
+
+  private withoutMissingColumns(row: Translation): Translation {
+    if (this.missingColumns.size === 0) return row;
+    return Object.fromEntries(
+      Object.entries(row).filter(([column]) => !this.missingColumns.has(column))
+    ) as unknown as Translation;
+  }
+
+  // Inserts the rows, dropping optional columns the table does not know
+  private async insert(rows: Translation[]) {
+    while (true) {
+      const { error } = await supabase.from('translations').insert(rows.map(row => this.withoutMissingColumns(row)));
+      if (!error) return null;
+      const column = unknownColumn(error);
+      if (!column || REQUIRED_COLUMNS.includes(column) || this.missingColumns.has(column)) return error;
+      console.warn(`The translations table has no "${column}" column; saving without it.`);
+      this.missingColumns.add(column);
+    }
+  }
+
+  /**
+   * Sends one batch of due rows. Rows that failed before go out on their
+   * own, so a single bad row cannot keep holding back the others.
+   */
+  public async flush() {
+    if (this.flushing) return;
+    this.flushing = true;
+    try {
+      await this.loading;
+      const now = Date.now();
+      const due = Array.from(this.records.values())
+        .filter(r => !r.failed && r.nextAttemptAt <= now)
+        .sort((a, b) => a.nextAttemptAt - b.nextAttemptAt);
+      if (due.length === 0) return;
+
+      const batch = due[0].attempts > 0
+        ? [due[0]]
+        : due.filter(r => r.attempts === 0).slice(0, BATCH_SIZE);
+
+      const error = await this.insert(batch.map(r => r.row));
+      if (!error) {
+        batch.forEach(r => this.remove(r.id));
+        this.lastError = null;
+      } else {
+        this.lastError = error.message;
+        console.warn('Failed to save translations, will retry:', error.message);
+        batch.forEach(r => {
+          r.attempts += 1;
+          r.lastError = error.message;
+          r.failed = r.attempts >= MAX_ATTEMPTS;
+          r.nextAttemptAt = Date.now() + Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** (r.attempts - 1));
+          this.save(r);
+        });
+      }
+      this.emitChange();
+    } catch (e: any) {
+      console.error('Translation outbox flush failed:', e);
+    } finally {
+      this.flushing = false;
+    }
+  }
+}
+
+export const translationOutbox = new TranslationOutbox();
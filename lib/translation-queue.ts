@@ -0,0 +1,81 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Transcript } from './supabase';
+import { SessionProgress } from './transcript-delta';
+import { idbDelete, idbGet, idbSet } from './idb';
+
+// The fields of a transcript its queued segments still need; the full text is not kept
+export type QueueSource = Pick<Transcript, 'session_id' | 'user_id' | 'source_language'>;
+
+export const queueSource = ({ session_id, user_id, source_language }: QueueSource): QueueSource =>
+  ({ session_id, user_id, source_language });
+
+export type QueueItem = {
+  text: string;
+  // Null for filler such as a cleared throat
+  refData: QueueSource | null;
+  turnId?: string;
+  // Paragraph of the source transcript this item was cut from
+  paragraphId?: string;
+  // Further paragraphs the lag policy merged into this item
+  absorbedParagraphIds?: string[];
+  // Index of that paragraph in the transcript, and of this item within it
+  paragraphIndex?: number;
+  segmentIndex?: number;
+  // Resolved speaker id; the text no longer carries the speaker tag
+  speaker?: string;
+  // Date.now() when the item was queued, used to measure lag
+  enqueuedAt?: number;
+  // Failed requests so far
+  attempts?: number;
+};
+
+// Every paragraph whose text the item carries
+export const paragraphsOf = (item: QueueItem): string[] =>
+  [item.paragraphId, ...(item.absorbedParagraphIds || [])].filter((id): id is string => !!id);
+
+/**
+ * Everything the bridge needs to pick up where it left off after a reload:
+ * pending items, the item that was being spoken, and which paragraphs of
+ * each session were already consumed.
+ */
+export interface PersistedBridgeState {
+  queue: QueueItem[];
+  inFlight: QueueItem | null;
+  // Segments that gave up after retrying, kept for a manual retry
+  failed?: QueueItem[];
+  progress: Record<string, SessionProgress>;
+  paragraphCount: number;
+  savedAt: number;
+}
+
+const STATE_KEY = 'bridge-state';
+
+// Writes are chained so a slow save can never overwrite a newer one
+let saveChain: Promise<void> = Promise.resolve();
+
+export const loadBridgeState = async (): Promise<PersistedBridgeState | null> => {
+  try {
+    return (await idbGet<PersistedBridgeState>('bridge', STATE_KEY)) || null;
+  } catch (e) {
+    console.warn('Failed to load persisted translation queue:', e);
+    return null;
+  }
+};
+
+export const saveBridgeState = (state: Omit<PersistedBridgeState, 'savedAt'>) => {
+  const snapshot: PersistedBridgeState = { ...state, savedAt: Date.now() };
+  saveChain = saveChain
+    .then(() => idbSet('bridge', STATE_KEY, snapshot))
+    .catch(e => console.warn('Failed to persist translation queue:', e));
+  return saveChain;
+};
+
+export const clearBridgeState = () => {
+  saveChain = saveChain
+    .then(() => idbDelete('bridge', STATE_KEY))
+    .catch(e => console.warn('Failed to clear persisted translation queue:', e));
+  return saveChain;
+};
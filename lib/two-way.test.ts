@@ -0,0 +1,38 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { detectDirection, languagePair, targetOf } from './two-way';
+
+// The language a turn is interpreted into
+const route = (text: string, pair: [string, string]) => targetOf(detectDirection(text, pair, 'a-to-b'), pair);
+
+describe('two-way interpretation', () => {
+  it('pairs the other party with the primary language only when enabled', () => {
+    const twoWay = { enabled: true, languageA: 'English (US)' };
+    expect(languagePair({ twoWay, language: 'Japanese' })).toEqual(['English (US)', 'Japanese']);
+    expect(languagePair({ twoWay: { ...twoWay, enabled: false }, language: 'Japanese' })).toBeNull();
+    expect(languagePair({ twoWay, language: 'English (US)' })).toBeNull();
+  });
+
+  it('routes each side of a pair in another script to the other side', () => {
+    const pair = languagePair({ twoWay: { enabled: true, languageA: 'English (US)' }, language: 'Japanese' })!;
+    expect(route('会議を始めましょう。予算から確認します。', pair)).toBe('English (US)');
+    expect(route('Let us start with the budget.', pair)).toBe('Japanese');
+  });
+
+  it('routes each side of a pair sharing a script by its common words', () => {
+    const pair = languagePair({ twoWay: { enabled: true, languageA: 'English (US)' }, language: 'Taglish (Philippines)' })!;
+    expect(detectDirection('Kumusta po kayo? Handa na ba ang mga report?', pair, 'a-to-b')).toBe('b-to-a');
+    expect(route('Kumusta po kayo? Handa na ba ang mga report?', pair)).toBe('English (US)');
+    expect(detectDirection('We are ready to start the meeting.', pair, 'b-to-a')).toBe('a-to-b');
+    expect(route('We are ready to start the meeting.', pair)).toBe('Taglish (Philippines)');
+  });
+
+  it('keeps the previous direction when the language cannot be told', () => {
+    const pair: [string, string] = ['English (US)', 'Taglish (Philippines)'];
+    expect(detectDirection('OK.', pair, 'b-to-a')).toBe('b-to-a');
+    expect(detectDirection('OK.', pair, 'a-to-b')).toBe('a-to-b');
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// 'a-to-b' means language A was spoken and is interpreted into B
+export type Direction = 'a-to-b' | 'b-to-a';
+
+export interface TwoWaySettings {
+  enabled: boolean;
+  // The other party's language (A); the primary language is side B
+  languageA: string;
+}
+
+export const DEFAULT_TWO_WAY: TwoWaySettings = {
+  enabled: false,
+  languageA: 'English (US)',
+};
+
+// [A, B], or null when two-way interpretation is off or both sides are the same
+export const languagePair = (
+  settings: { twoWay: TwoWaySettings; language: string }
+): [string, string] | null =>
+  settings.twoWay.enabled && settings.twoWay.languageA && settings.twoWay.languageA !== settings.language
+    ? [settings.twoWay.languageA, settings.language]
+    : null;
+
+export const sourceOf = (direction: Direction, pair: [string, string]) =>
+  direction === 'a-to-b' ? pair[0] : pair[1];
+
+export const targetOf = (direction: Direction, pair: [string, string]) =>
+  direction === 'a-to-b' ? pair[1] : pair[0];
+
+export const reverseDirection = (direction: Direction): Direction =>
+  direction === 'a-to-b' ? 'b-to-a' : 'a-to-b';
+
+// Languages of a pair are told apart by script, and within a script by common words
+const SCRIPTS: Record<string, RegExp> = {
+  kana: /[\p{Script=Hiragana}\p{Script=Katakana}]/gu,
+  han: /\p{Script=Han}/gu,
+  hangul: /\p{Script=Hangul}/gu,
+  arabic: /\p{Script=Arabic}/gu,
+  hebrew: /\p{Script=Hebrew}/gu,
+  cyrillic: /\p{Script=Cyrillic}/gu,
+  greek: /\p{Script=Greek}/gu,
+  devanagari: /\p{Script=Devanagari}/gu,
+  bengali: /\p{Script=Bengali}/gu,
+  thai: /\p{Script=Thai}/gu,
+  tamil: /\p{Script=Tamil}/gu,
+  telugu: /\p{Script=Telugu}/gu,
+  kannada: /\p{Script=Kannada}/gu,
+  malayalam: /\p{Script=Malayalam}/gu,
+  gujarati: /\p{Script=Gujarati}/gu,
+  georgian: /\p{Script=Georgian}/gu,
+  armenian: /\p{Script=Armenian}/gu,
+  myanmar: /\p{Script=Myanmar}/gu,
+  khmer: /\p{Script=Khmer}/gu,
+  lao: /\p{Script=Lao}/gu,
+  sinhala: /\p{Script=Sinhala}/gu,
+  latin: /\p{Script=Latin}/gu,
+};
+
+// Languages written in another script than Latin, by the start of their name
+const LANGUAGE_SCRIPTS: [string, string][] = [
+  ['japanese', 'kana'], ['chinese', 'han'], ['korean', 'hangul'],
+  ['arabic', 'arabic'], ['persian', 'arabic'], ['urdu', 'arabic'], ['pashto', 'arabic'],
+  ['hebrew', 'hebrew'], ['greek', 'greek'],
+  ['russian', 'cyrillic'], ['ukrainian', 'cyrillic'], ['bulgarian', 'cyrillic'], ['serbian', 'cyrillic'],
+  ['macedonian', 'cyrillic'], ['belarusian', 'cyrillic'], ['kazakh', 'cyrillic'], ['mongolian', 'cyrillic'],
+  ['hindi', 'devanagari'], ['marathi', 'devanagari'], ['nepali', 'devanagari'], ['bengali', 'bengali'],
+  ['thai', 'thai'], ['tamil', 'tamil'], ['telugu', 'telugu'], ['kannada', 'kannada'],
+  ['malayalam', 'malayalam'], ['gujarati', 'gujarati'], ['georgian', 'georgian'], ['armenian', 'armenian'],
+  ['burmese', 'myanmar'], ['khmer', 'khmer'], ['lao', 'lao'], ['sinhala', 'sinhala'],
+];
+
+// Common words, and letters only the language uses, to tell apart languages sharing a script
+const WORD_PROFILES: [string, { words: string; marks?: RegExp }][] = [
+  ['english', { words: 'the and is are was were you i it to of in that this with for have not be we they what do' }],
+  ['tagalog', { words: 'ang ng mga sa na ako ko mo ikaw siya kami tayo hindi po naman lang yung talaga kasi ba din rin nga pero ito iyan dito may wala' }],
+  ['spanish', { words: 'el la los las que de y es en un una por con para no se lo como pero muy está', marks: /[ñ¿¡]/g }],
+  ['french', { words: 'le la les des est et un une que qui pas pour dans ce vous nous je il avec sur', marks: /[çœ]/g }],
+  ['german', { words: 'der die das und ist nicht ein eine ich sie wir mit zu auf für den dem auch', marks: /[äöüß]/g }],
+  ['italian', { words: 'il lo gli che di e è un una per non con sono della questo mi ho anche', marks: /[ìò]/g }],
+  ['portuguese', { words: 'o a os as que de e é um uma não com para em do da se você muito', marks: /[ãõ]/g }],
+  ['dutch', { words: 'de het een en is van dat niet ik je wij zijn met voor op ook maar', marks: /ij/g }],
+  ['indonesian', { words: 'yang dan di ini itu dengan untuk tidak ada saya kami akan dari ke juga bisa' }],
+  ['malay', { words: 'yang dan di ini itu dengan untuk tidak ada saya kami akan dari ke juga boleh' }],
+  ['vietnamese', { words: 'và là của có không được người những một cho này tôi các với', marks: /[ăđơư]/g }],
+  ['turkish', { words: 've bir bu da de için ne ile çok ama değil var ben sen', marks: /[ğış]/g }],
+  ['polish', { words: 'i w nie na że to jest się z do jak ale co tak', marks: /[ąęłńśźż]/g }],
+  ['swedish', { words: 'och att det är som en på för med inte jag har', marks: /[å]/g }],
+  ['russian', { words: 'и в не на что я с он как это по но мы вы', marks: /[ыэъ]/g }],
+  ['ukrainian', { words: 'і в не на що я з він як це та але ми ви', marks: /[іїєґ]/g }],
+];
+
+const baseName = (language: string) => language.toLowerCase().split(/[\s(]/)[0];
+
+const PROFILE_ALIASES: Record<string, string> = { filipino: 'tagalog' };
+
+const scriptOf = (language: string) =>
+  LANGUAGE_SCRIPTS.find(([name]) => baseName(language) === name)?.[1] ?? 'latin';
+
+
+const countMatches = (text: string, pattern: RegExp) => text.match(pattern)?.length ?? 0;
+
+// Japanese mixes kana with Chinese characters, so Chinese characters without
+// any kana are taken for Chinese
+const scriptScore = (text: string, language: string) => {
+  const script = scriptOf(language);
+  const kana = countMatches(text, SCRIPTS.kana);
+  if (script === 'kana') return kana > 0 ? kana + countMatches(text, SCRIPTS.han) : 0;
+  if (script === 'han') return kana > 0 ? 0 : countMatches(text, SCRIPTS.han);
+  return countMatches(text, SCRIPTS[script]);
+};
+
+const profileHits = (words: string[], text: string, name: string) => {
+  const profile = WORD_PROFILES.find(([profileName]) => profileName === name)?.[1];
+  if (!profile) return null;
+  const vocabulary = new Set(profile.words.split(' '));
+  return words.filter(word => vocabulary.has(word)).length + (profile.marks ? countMatches(text, profile.marks) : 0);
+};
+
+const wordScore = (words: string[], text: string, language: string) => {
+  const name = PROFILE_ALIASES[baseName(language)] ?? baseName(language);
+  const tagalog = () => profileHits(words, text, 'tagalog')!;
+  const english = () => profileHits(words, text, 'english')!;
+  // Taglish switches between Tagalog and English; plain Tagalog rarely uses English words
+  if (name === 'taglish') return tagalog() > 0 && english() > 0 ? tagalog() + english() : tagalog() / 2;
+  if (name === 'tagalog') return tagalog() - english();
+  return profileHits(words, text, name);
+};
+
+/**
+ * Which of the two languages `text` is in, or null when it cannot tell:
+ * first by script, then by common words.
+ */
+export const detectLanguage = (text: string, pair: [string, string]): string | null => {
+  const [a, b] = pair;
+  const lower = text.toLowerCase();
+
+  if (scriptOf(a) !== scriptOf(b)) {
+    const scoreA = scriptScore(lower, a);
+    const scoreB = scriptScore(lower, b);
+    if (scoreA === scoreB) return null;
+    return scoreA > scoreB ? a : b;
+  }
+
+  const words = lower.match(/[\p{L}']+/gu) || [];
+  const scoreA = wordScore(words, lower, a);
+  const scoreB = wordScore(words, lower, b);
+  if (scoreA !== null && scoreB !== null) {
+    if (scoreA === scoreB) return null;
+    return scoreA > scoreB ? a : b;
+  }
+  // Only one side is known; a few words without any of its common words are the other side
+  const known = scoreA !== null ? a : scoreB !== null ? b : null;
+  if (!known) return null;
+  const score = (known === a ? scoreA : scoreB)!;
+  if (score > 0) return known;
+  return words.length >= 3 ? (known === a ? b : a) : null;
+};
+
+// Direction of speech in `text`; `fallback` when the language cannot be told
+export const detectDirection = (text: string, pair: [string, string], fallback: Direction): Direction => {
+  const language = detectLanguage(text, pair);
+  if (language === null) return fallback;
+  return language === pair[0] ? 'a-to-b' : 'b-to-a';
+};